@@ -0,0 +1,226 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+export const BACKOFF_STRATEGIES = [
+  "fixed",
+  "linear",
+  "exponential",
+  "decorrelated_jitter",
+  "full_jitter",
+  "fibonacci"
+] as const;
+
+export type BackoffStrategy = typeof BACKOFF_STRATEGIES[number];
+
+export interface BackoffOptions {
+  strategy: BackoffStrategy;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Add up to 30% random delay on top of non-jittered strategies
+  jitter: boolean;
+}
+
+// Schema properties shared by every tool that retries with backoff
+export const backoffSchemaProperties = {
+  strategy: {
+    type: "string",
+    enum: BACKOFF_STRATEGIES,
+    description: "Backoff strategy: fixed, linear (initial * n), exponential (initial * multiplier^(n-1)), decorrelated_jitter, full_jitter or fibonacci",
+    default: "exponential"
+  },
+  max_delay_ms: {
+    type: "number",
+    description: "Maximum delay between retries",
+    default: 30000,
+    minimum: 100
+  },
+  multiplier: {
+    type: "number",
+    description: "Growth factor for exponential and full_jitter strategies",
+    default: 2,
+    minimum: 1,
+    maximum: 10
+  },
+  jitter: {
+    type: "boolean",
+    description: "Add up to 30% random jitter to fixed, linear, exponential and fibonacci delays"
+  },
+  dry_run: {
+    type: "boolean",
+    description: "Return the planned delay schedule without executing anything",
+    default: false
+  }
+};
+
+export function backoffOptionsFromArgs(args: any, defaults: { jitter: boolean }): BackoffOptions {
+  const {
+    strategy = "exponential",
+    initial_delay_ms = 1000,
+    max_delay_ms = 30000,
+    multiplier = 2,
+    jitter = defaults.jitter
+  } = args;
+
+  if (!BACKOFF_STRATEGIES.includes(strategy)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown backoff strategy: ${strategy}. Expected one of ${BACKOFF_STRATEGIES.join(", ")}`
+    );
+  }
+
+  return {
+    strategy,
+    initialDelayMs: initial_delay_ms,
+    maxDelayMs: Math.max(initial_delay_ms, max_delay_ms),
+    multiplier,
+    jitter
+  };
+}
+
+function fibonacci(n: number): number {
+  let [previous, current] = [0, 1];
+  for (let i = 1; i < n; i++) {
+    [previous, current] = [current, previous + current];
+  }
+  return current;
+}
+
+// Deterministic delay before retry number `retry` (1 = first retry), before capping
+function baseDelay(retry: number, options: BackoffOptions): number {
+  const { strategy, initialDelayMs, multiplier } = options;
+  switch (strategy) {
+    case "fixed":
+      return initialDelayMs;
+    case "linear":
+      return initialDelayMs * retry;
+    case "fibonacci":
+      return initialDelayMs * fibonacci(retry);
+    case "exponential":
+    case "full_jitter":
+      return initialDelayMs * Math.pow(multiplier, retry - 1);
+    case "decorrelated_jitter":
+      return initialDelayMs * Math.pow(3, retry - 1);
+  }
+}
+
+/**
+ * Smallest and largest delay a strategy can produce before retry `retry`.
+ */
+export function backoffRange(retry: number, options: BackoffOptions): { min: number; max: number } {
+  const cap = (delay: number) => Math.min(options.maxDelayMs, delay);
+  const base = cap(baseDelay(retry, options));
+
+  switch (options.strategy) {
+    case "full_jitter":
+      return { min: 0, max: base };
+    case "decorrelated_jitter":
+      return { min: cap(options.initialDelayMs), max: base };
+    default:
+      return { min: base, max: options.jitter ? cap(base * 1.3) : base };
+  }
+}
+
+/**
+ * Delay before retry `retry` (1 = first retry).
+ *
+ * Decorrelated jitter depends on the previous delay, so callers that track it
+ * should pass it back in; it defaults to the initial delay.
+ */
+export function backoffDelay(retry: number, options: BackoffOptions, previousDelayMs?: number): number {
+  const { strategy, initialDelayMs, maxDelayMs } = options;
+
+  if (strategy === "decorrelated_jitter") {
+    const previous = previousDelayMs ?? initialDelayMs;
+    const upper = Math.max(initialDelayMs, previous * 3);
+    return Math.round(Math.min(maxDelayMs, initialDelayMs + Math.random() * (upper - initialDelayMs)));
+  }
+
+  const { min, max } = backoffRange(retry, options);
+  return Math.round(min + Math.random() * (max - min));
+}
+
+/**
+ * Planned delays for `retries` retries, for dry runs.
+ *
+ * Jittered strategies are sampled once; the min/max bounds show the full range.
+ */
+export function planBackoff(retries: number, options: BackoffOptions) {
+  const schedule = [];
+  let previous: number | undefined;
+  let totalWaitMs = 0;
+  let maxTotalWaitMs = 0;
+
+  for (let retry = 1; retry <= retries; retry++) {
+    const delay = backoffDelay(retry, options, previous);
+    const { min, max } = backoffRange(retry, options);
+    schedule.push({ retry, delay_ms: delay, min_delay_ms: min, max_delay_ms: max });
+    previous = delay;
+    totalWaitMs += delay;
+    maxTotalWaitMs += max;
+  }
+
+  return {
+    strategy: options.strategy,
+    schedule,
+    total_wait_ms: totalWaitMs,
+    max_total_wait_ms: maxTotalWaitMs
+  };
+}
+
+/**
+ * Server-requested delay in milliseconds from response headers, if any.
+ *
+ * Understands Retry-After (seconds or HTTP-date), retry-after-ms, RateLimit-Reset
+ * (seconds from now) and X-RateLimit-Reset (epoch seconds, epoch milliseconds or
+ * seconds from now). The reset headers only count when the remaining quota is 0.
+ */
+export function retryAfterFromHeaders(
+  headers: Record<string, string> | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const lower: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    lower[name.toLowerCase()] = String(value).trim();
+  }
+
+  const retryAfterMs = Number(lower["retry-after-ms"]);
+  if (lower["retry-after-ms"] && Number.isFinite(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = lower["retry-after"];
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  // Quota resets only matter once the quota is used up
+  const exhausted = (remaining: string | undefined) => remaining === undefined || Number(remaining) <= 0;
+
+  const rateLimitReset = Number(lower["ratelimit-reset"]);
+  if (lower["ratelimit-reset"] && Number.isFinite(rateLimitReset) && exhausted(lower["ratelimit-remaining"])) {
+    return Math.max(0, rateLimitReset * 1000);
+  }
+
+  const reset = Number(lower["x-ratelimit-reset"]);
+  if (lower["x-ratelimit-reset"] && Number.isFinite(reset) && exhausted(lower["x-ratelimit-remaining"])) {
+    if (reset > 1e12) {
+      return Math.max(0, reset - now);
+    }
+    if (reset > 1e9) {
+      return Math.max(0, reset * 1000 - now);
+    }
+    return reset * 1000;
+  }
+
+  return undefined;
+}
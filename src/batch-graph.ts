@@ -0,0 +1,128 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { getPath } from "./json-transform.js";
+import { OperationError } from "./operations.js";
+
+// {{op_id}} or {{op_id.path.into.result}}
+const TEMPLATE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([^{}\s]+)\s*\}\}$/;
+
+export interface BatchGraphOperation {
+  id: string;
+  data?: any;
+  depends_on?: string[];
+}
+
+// Split "op.path.to.value" into the operation ID and the path into its result
+function parseReference(reference: string): { id: string; path: string | undefined } {
+  const separator = reference.indexOf(".");
+  return separator === -1
+    ? { id: reference, path: undefined }
+    : { id: reference.slice(0, separator), path: reference.slice(separator + 1) };
+}
+
+// Every operation ID referenced by a template anywhere inside `value`
+export function templateReferences(value: any, ids: Set<string> = new Set()): Set<string> {
+  if (typeof value === "string") {
+    for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+      ids.add(parseReference(match[1]).id);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => templateReferences(item, ids));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach(item => templateReferences(item, ids));
+  }
+  return ids;
+}
+
+/**
+ * Substitute upstream results into an operation's data.
+ *
+ * A string that is exactly one template takes the referenced value as-is, so
+ * objects and numbers keep their type; templates inside longer strings are
+ * interpolated, with non-strings JSON-encoded.
+ */
+export function resolveTemplates(value: any, results: Map<string, any>): any {
+  const lookup = (reference: string) => {
+    const { id, path } = parseReference(reference);
+    const resolved = getPath(results.get(id), path);
+    if (resolved === undefined) {
+      throw new OperationError(`Template {{${reference}}} did not resolve to a value`, false);
+    }
+    return resolved;
+  };
+
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+    if (whole) {
+      return lookup(whole[1]);
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, reference) => {
+      const resolved = lookup(reference);
+      return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplates(item, results));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, results)]));
+  }
+  return value;
+}
+
+/**
+ * Check that operations form a DAG: unique IDs, known dependencies, templates
+ * that only reference declared dependencies, and no cycles.
+ */
+export function validateBatchGraph(operations: BatchGraphOperation[]): void {
+  const byId = new Map<string, BatchGraphOperation>();
+  for (const op of operations) {
+    if (byId.has(op.id)) {
+      throw new McpError(ErrorCode.InvalidParams, `Duplicate operation id: ${op.id}`);
+    }
+    byId.set(op.id, op);
+  }
+
+  for (const op of operations) {
+    const dependsOn = op.depends_on ?? [];
+    if (!Array.isArray(dependsOn)) {
+      throw new McpError(ErrorCode.InvalidParams, `depends_on of ${op.id} must be an array of operation ids`);
+    }
+    for (const id of dependsOn) {
+      if (!byId.has(id)) {
+        throw new McpError(ErrorCode.InvalidParams, `Operation ${op.id} depends on unknown operation ${id}`);
+      }
+    }
+    // Templates are only expanded in operations with dependencies
+    if (dependsOn.length === 0) continue;
+    for (const id of templateReferences(op.data)) {
+      if (!dependsOn.includes(id)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Operation ${op.id} references {{${id}}} without listing it in depends_on`
+        );
+      }
+    }
+  }
+
+  // Depth-first search; reaching an operation still on the path closes a cycle
+  const done = new Set<string>();
+  const path: string[] = [];
+  const visit = (id: string) => {
+    if (done.has(id)) return;
+    const start = path.indexOf(id);
+    if (start !== -1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Dependency cycle: ${[...path.slice(start), id].join(" -> ")}`
+      );
+    }
+    path.push(id);
+    for (const dependency of byId.get(id)!.depends_on ?? []) {
+      visit(dependency);
+    }
+    path.pop();
+    done.add(id);
+  };
+  operations.forEach(op => visit(op.id));
+}
@@ -0,0 +1,195 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync
+} from "node:fs";
+import { join } from "node:path";
+
+// Cache storage with TTL support
+export interface CacheEntry {
+  value: any;
+  // Hard expiry: the entry is dropped after this point
+  expiresAt: number;
+  // Soft expiry: between staleAt and expiresAt the value is served flagged stale
+  staleAt: number;
+  // Fresh lifetime, reapplied by sliding expiration and cache_touch
+  ttlMs: number;
+  // Whether each cache_get resets the TTL
+  sliding: boolean;
+  // Approximate serialized size in bytes, used for memory limits
+  size: number;
+  // Number of cache_get hits, used for LFU eviction
+  hits: number;
+  // Taken from a server-wide sequence on every write, used for compare-and-set.
+  // A key's versions only grow, even across deletes, expiry and restarts
+  version: number;
+  // Labels used by cache_invalidate to drop related entries together
+  tags: string[];
+}
+
+/**
+ * Storage backend behind the cache tools.
+ *
+ * The in-memory Map in the server stays the source of truth for reads; a
+ * backend only persists mutations and hands the surviving entries back on
+ * startup.
+ */
+export interface CacheStorage {
+  load(): Map<string, CacheEntry>;
+  // Highest version ever stored, including entries since deleted; call after load
+  lastVersion(): number;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+  compact(entries: Map<string, CacheEntry>): void;
+}
+
+// Default backend: nothing survives a restart
+export class MemoryCacheStorage implements CacheStorage {
+  load(): Map<string, CacheEntry> {
+    return new Map();
+  }
+
+  lastVersion(): number {
+    return 0;
+  }
+
+  set(): void {}
+
+  delete(): void {}
+
+  clear(): void {}
+
+  compact(): void {}
+}
+
+type LogRecord =
+  | { op: "set"; key: string; entry: CacheEntry }
+  // Written first by compaction, so versions of dropped entries are never reused
+  | { op: "version"; version: number }
+  | { op: "delete"; key: string }
+  | { op: "clear" };
+
+/**
+ * File-backed storage using an append-only JSON lines log.
+ *
+ * Every mutation appends one record; `compact` rewrites the log with only the
+ * live entries once it has accumulated more records than there are entries.
+ */
+export class FileCacheStorage implements CacheStorage {
+  private readonly logPath: string;
+  private records = 0;
+  private maxVersion = 0;
+
+  constructor(directory: string) {
+    mkdirSync(directory, { recursive: true });
+    this.logPath = join(directory, "cache.log");
+  }
+
+  load(): Map<string, CacheEntry> {
+    const entries = new Map<string, CacheEntry>();
+    if (!existsSync(this.logPath)) {
+      return entries;
+    }
+
+    const lines = readFileSync(this.logPath, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      this.records++;
+
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A crash mid-write can leave a truncated last line; skip it
+        continue;
+      }
+
+      switch (record.op) {
+        case "set":
+          entries.set(record.key, record.entry);
+          this.maxVersion = Math.max(this.maxVersion, record.entry.version ?? 0);
+          break;
+        case "version":
+          this.maxVersion = Math.max(this.maxVersion, record.version);
+          break;
+        case "delete":
+          entries.delete(record.key);
+          break;
+        case "clear":
+          entries.clear();
+          break;
+      }
+    }
+
+    const now = Date.now();
+    for (const [key, entry] of entries.entries()) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+
+    this.compact(entries);
+    return entries;
+  }
+
+  lastVersion(): number {
+    return this.maxVersion;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.maxVersion = Math.max(this.maxVersion, entry.version);
+    this.append({ op: "set", key, entry });
+  }
+
+  delete(key: string): void {
+    this.append({ op: "delete", key });
+  }
+
+  clear(): void {
+    this.append({ op: "clear" });
+  }
+
+  compact(entries: Map<string, CacheEntry>): void {
+    if (this.records <= entries.size + 1) {
+      return;
+    }
+
+    const lines: string[] = [JSON.stringify({ op: "version", version: this.maxVersion })];
+    for (const [key, entry] of entries.entries()) {
+      lines.push(JSON.stringify({ op: "set", key, entry }));
+    }
+
+    try {
+      // Write to a temp file first so a crash never leaves a half-written log
+      const tempPath = `${this.logPath}.tmp`;
+      writeFileSync(tempPath, lines.length > 0 ? lines.join("\n") + "\n" : "");
+      renameSync(tempPath, this.logPath);
+      this.records = lines.length;
+    } catch (error) {
+      console.error(`Failed to compact cache log: ${(error as Error).message}`);
+    }
+  }
+
+  private append(record: LogRecord): void {
+    try {
+      appendFileSync(this.logPath, JSON.stringify(record) + "\n");
+      this.records++;
+    } catch (error) {
+      // The in-memory cache keeps working; only durability is lost
+      console.error(`Failed to persist cache entry: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Pick a backend from the environment (MCP_UTILITY_CACHE_DIR enables the file backend)
+export function createCacheStorage(env: NodeJS.ProcessEnv = process.env): CacheStorage {
+  const directory = env.MCP_UTILITY_CACHE_DIR;
+  if (directory) {
+    return new FileCacheStorage(directory);
+  }
+  return new MemoryCacheStorage();
+}
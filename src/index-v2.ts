@@ -7,31 +7,1162 @@ import {
   McpError,
   ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID } from "node:crypto";
+import { setMaxListeners } from "node:events";
 import { setTimeout } from "node:timers/promises";
+import { CacheEntry, createCacheStorage } from "./cache-storage.js";
+import {
+  backoffDelay,
+  backoffOptionsFromArgs,
+  BackoffOptions,
+  backoffSchemaProperties,
+  planBackoff,
+  retryAfterFromHeaders
+} from "./backoff.js";
+import { executeFileOperation, executeHttpRequest, OperationError } from "./operations.js";
+import { applyJsonTransform, canonicalJson } from "./json-transform.js";
+import { resolveTemplates, validateBatchGraph } from "./batch-graph.js";
+import {
+  checkRateLimit,
+  configureRateLimiter,
+  createRateLimiter,
+  RateLimitDecision,
+  RateLimiter,
+  RateLimitScope,
+  isRateLimitDescendant,
+  isRateLimiterIdle,
+  rateLimitAncestors,
+  rateLimitConfigsFromArgs,
+  rateLimitSchemaProperties,
+  resetRateLimiter,
+  validateRateLimitCost
+} from "./rate-limit.js";
+
+// Cache storage with TTL support, reloaded from the configured backend
+const cacheStorage = createCacheStorage();
+const cache = cacheStorage.load();
+// Last version handed out; shared by all keys so a re-created key never reuses one
+let cacheVersion = cacheStorage.lastVersion();
+
+// Cache capacity limits (global and per namespace) and eviction policy
+const cacheLimits = {
+  maxEntries: readLimit("MCP_UTILITY_CACHE_MAX_ENTRIES", 10000),
+  maxBytes: readLimit("MCP_UTILITY_CACHE_MAX_BYTES", 100 * 1024 * 1024),
+  namespaceMaxEntries: readLimit("MCP_UTILITY_CACHE_NAMESPACE_MAX_ENTRIES", Infinity),
+  namespaceMaxBytes: readLimit("MCP_UTILITY_CACHE_NAMESPACE_MAX_BYTES", Infinity),
+  eviction: process.env.MCP_UTILITY_CACHE_EVICTION === "lfu" ? "lfu" : "lru"
+};
+
+function readLimit(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const parsed = raw ? Number(raw) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Running totals so limit checks don't have to walk the whole cache
+const cacheUsage = { entries: 0, bytes: 0 };
+const namespaceUsage = new Map<string, { entries: number; bytes: number }>();
+
+// Tag -> cache keys carrying that tag, for cache_invalidate
+const tagIndex = new Map<string, Set<string>>();
+
+interface EvictedEntry {
+  key: string;
+  namespace: string;
+  reason: "max_entries" | "max_bytes" | "namespace_max_entries" | "namespace_max_bytes";
+}
+
+// Approximate in-memory footprint of an entry, measured as serialized bytes
+function entrySize(cacheKey: string, value: any): number {
+  return Buffer.byteLength(cacheKey) + Buffer.byteLength(JSON.stringify(value) ?? "");
+}
+
+// Keep usage totals and the tag index in step with the cache contents
+function trackEntry(cacheKey: string, entry: CacheEntry, sign: 1 | -1): void {
+  for (const tag of entry.tags) {
+    const keys = tagIndex.get(tag) || new Set<string>();
+    if (sign > 0) {
+      keys.add(cacheKey);
+      tagIndex.set(tag, keys);
+    } else {
+      keys.delete(cacheKey);
+      if (keys.size === 0) {
+        tagIndex.delete(tag);
+      }
+    }
+  }
+
+  const { namespace } = parseCacheKey(cacheKey);
+  const usage = namespaceUsage.get(namespace) || { entries: 0, bytes: 0 };
+  usage.entries += sign;
+  usage.bytes += sign * entry.size;
+  cacheUsage.entries += sign;
+  cacheUsage.bytes += sign * entry.size;
+
+  if (usage.entries <= 0) {
+    namespaceUsage.delete(namespace);
+  } else {
+    namespaceUsage.set(namespace, usage);
+  }
+}
+
+for (const [cacheKey, entry] of cache.entries()) {
+  // Entries persisted before size tracking existed lack these fields
+  entry.size ??= entrySize(cacheKey, entry.value);
+  entry.hits ??= 0;
+  entry.version ??= 1;
+  entry.tags ??= [];
+  entry.staleAt ??= entry.expiresAt;
+  entry.ttlMs ??= Math.max(0, entry.expiresAt - Date.now());
+  entry.sliding ??= false;
+  trackEntry(cacheKey, entry, 1);
+}
+
+// Mark an entry as used: bump its hit count and move it to the LRU tail
+function markEntryUsed(cacheKey: string, entry: CacheEntry): void {
+  entry.hits++;
+  cache.delete(cacheKey);
+  cache.set(cacheKey, entry);
+}
+
+type CacheTiming = Pick<CacheEntry, "expiresAt" | "staleAt" | "ttlMs" | "sliding">;
+
+// Expiry fields for a new entry: fresh for ttlSeconds, then stale for staleSeconds
+function cacheTiming(ttlSeconds: number, staleSeconds: number = 0, sliding: boolean = false): CacheTiming {
+  const ttlMs = ttlSeconds * 1000;
+  const staleAt = Date.now() + ttlMs;
+  return {
+    staleAt,
+    expiresAt: staleAt + (staleSeconds * 1000),
+    ttlMs,
+    sliding
+  };
+}
+
+// Restart an entry's TTL without rewriting its value, keeping its stale window
+function cacheExtend(cacheKey: string, entry: CacheEntry, ttlMs: number = entry.ttlMs): void {
+  const staleWindowMs = entry.expiresAt - entry.staleAt;
+  entry.ttlMs = ttlMs;
+  entry.staleAt = Date.now() + ttlMs;
+  entry.expiresAt = entry.staleAt + staleWindowMs;
+  cacheStorage.set(cacheKey, entry);
+}
+
+// Choose the next entry to evict, preferring already-expired entries
+function findEvictionVictim(namespace: string | undefined, exclude: string): string | undefined {
+  const now = Date.now();
+  let victim: string | undefined;
+  let victimHits = Infinity;
+
+  // Map iteration order is least-recently-used first
+  for (const [cacheKey, entry] of cache.entries()) {
+    if (cacheKey === exclude) continue;
+    if (namespace !== undefined && parseCacheKey(cacheKey).namespace !== namespace) continue;
+
+    if (entry.expiresAt <= now) {
+      return cacheKey;
+    }
+    if (cacheLimits.eviction === "lru") {
+      victim ??= cacheKey;
+    } else if (entry.hits < victimHits) {
+      victim = cacheKey;
+      victimHits = entry.hits;
+    }
+  }
+
+  return victim;
+}
+
+// Evict entries until the global and namespace limits hold again
+function enforceCacheLimits(cacheKey: string): EvictedEntry[] {
+  const evicted: EvictedEntry[] = [];
+  const { namespace } = parseCacheKey(cacheKey);
+
+  while (true) {
+    const usage = namespaceUsage.get(namespace) || { entries: 0, bytes: 0 };
+    let reason: EvictedEntry["reason"] | undefined;
+    let scope: string | undefined;
+
+    if (usage.entries > cacheLimits.namespaceMaxEntries) {
+      reason = "namespace_max_entries";
+      scope = namespace;
+    } else if (usage.bytes > cacheLimits.namespaceMaxBytes) {
+      reason = "namespace_max_bytes";
+      scope = namespace;
+    } else if (cacheUsage.entries > cacheLimits.maxEntries) {
+      reason = "max_entries";
+    } else if (cacheUsage.bytes > cacheLimits.maxBytes) {
+      reason = "max_bytes";
+    } else {
+      break;
+    }
+
+    const victim = findEvictionVictim(scope, cacheKey);
+    if (!victim) break;
+
+    cacheDelete(victim);
+    countCacheEvent(parseCacheKey(victim).namespace, "evictions");
+    evicted.push({ ...parseCacheKey(victim), reason });
+  }
+
+  return evicted;
+}
+
+// Look up an entry, dropping it if it has already expired
+function getLiveEntry(cacheKey: string): CacheEntry | undefined {
+  const entry = cache.get(cacheKey);
+  if (entry && entry.expiresAt <= Date.now()) {
+    cacheDelete(cacheKey);
+    countCacheEvent(parseCacheKey(cacheKey).namespace, "expirations");
+    return undefined;
+  }
+  return entry;
+}
+
+// Write-through helpers so every mutation reaches the storage backend
+function cacheSet(
+  cacheKey: string,
+  value: any,
+  timing: CacheTiming,
+  tags: string[] = []
+): { entry: CacheEntry; evicted: EvictedEntry[] } {
+  const size = entrySize(cacheKey, value);
+  if (size > Math.min(cacheLimits.maxBytes, cacheLimits.namespaceMaxBytes)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Value for ${cacheKey} is ${size} bytes, larger than the cache size limit`
+    );
+  }
+
+  const existing = cache.get(cacheKey);
+  if (existing) {
+    trackEntry(cacheKey, existing, -1);
+    cache.delete(cacheKey);
+  }
+
+  const entry: CacheEntry = {
+    value,
+    ...timing,
+    size,
+    hits: 0,
+    version: ++cacheVersion,
+    tags
+  };
+  cache.set(cacheKey, entry);
+  trackEntry(cacheKey, entry, 1);
+  cacheStorage.set(cacheKey, entry);
+  countCacheEvent(parseCacheKey(cacheKey).namespace, "sets");
+
+  return { entry, evicted: enforceCacheLimits(cacheKey) };
+}
+
+function cacheDelete(cacheKey: string): boolean {
+  const entry = cache.get(cacheKey);
+  if (!entry) {
+    return false;
+  }
+
+  cache.delete(cacheKey);
+  trackEntry(cacheKey, entry, -1);
+  cacheStorage.delete(cacheKey);
+  return true;
+}
 
-// Cache storage with TTL support
-interface CacheEntry {
-  value: any;
-  expiresAt: number;
+function cacheClear(): void {
+  cache.clear();
+  cacheUsage.entries = 0;
+  cacheUsage.bytes = 0;
+  namespaceUsage.clear();
+  tagIndex.clear();
+  cacheStorage.clear();
 }
 
-const cache = new Map<string, CacheEntry>();
+// Per-namespace counters reported by cache_stats
+interface CacheCounters {
+  hits: number;
+  stale_hits: number;
+  misses: number;
+  expirations: number;
+  evictions: number;
+  sets: number;
+  deletes: number;
+}
+
+const cacheCounters = new Map<string, CacheCounters>();
+
+function countCacheEvent(namespace: string, event: keyof CacheCounters): void {
+  let counters = cacheCounters.get(namespace);
+  if (!counters) {
+    counters = { hits: 0, stale_hits: 0, misses: 0, expirations: 0, evictions: 0, sets: 0, deletes: 0 };
+    cacheCounters.set(namespace, counters);
+  }
+  counters[event]++;
+}
+
+// One attempt of a tracked operation, kept for retry_get
+interface RetryAttemptRecord {
+  attempt: number;
+  startedAt: number;
+  // Wait required after the previous attempt before this one could start
+  delayMs: number;
+  finishedAt?: number;
+  success?: boolean;
+  error?: string;
+  errorClass?: string;
+  // Server-requested wait applied after this attempt, if any
+  serverHintMs?: number;
+}
 
 // Store for tracking retry metadata
-const retryMetadata = new Map<string, {
+interface RetryMetadata {
   attempts: number;
   lastAttempt: number;
+  // max_retries from the latest retry_operation call, used to report status
+  maxRetries: number;
   success: boolean;
-}>();
+  // Set once a fatal error is reported; no further attempts are issued
+  fatal: boolean;
+  lastError?: string;
+  errorClass?: string;
+  // Earliest time the next attempt may start, from a reported retry-after hint
+  retryAfterUntil?: number;
+  // Backoff before the next attempt, planned when the current one started
+  nextDelayMs?: number;
+  // Circuit breaker resource the operation's outcomes are recorded against
+  resource?: string;
+  history: RetryAttemptRecord[];
+}
+
+const retryMetadata = new Map<string, RetryMetadata>();
+
+// Count a new attempt and plan the backoff that applies if it fails
+function beginRetryAttempt(operationId: string, metadata: RetryMetadata, backoff: BackoffOptions): void {
+  const delayMs = requiredRetryDelay(metadata);
+  metadata.attempts += 1;
+  metadata.lastAttempt = Date.now();
+  metadata.history.push({ attempt: metadata.attempts, startedAt: metadata.lastAttempt, delayMs });
+  metadata.nextDelayMs = backoffDelay(metadata.attempts, backoff, metadata.nextDelayMs);
+  retryMetadata.set(operationId, metadata);
+
+  // First attempts count as requests, later ones spend the retry budget
+  const budget = getRetryBudget(retryBudgetKey(metadata));
+  (metadata.attempts === 1 ? budget.requests : budget.retries).push(metadata.lastAttempt);
+}
+
+// An attempt is open from execute_attempt until its outcome is recorded
+function hasOpenAttempt(metadata: RetryMetadata): boolean {
+  const current = metadata.history[metadata.history.length - 1];
+  return current !== undefined && current.finishedAt === undefined;
+}
+
+// Record how the current attempt ended in the operation's history
+function finishRetryAttempt(
+  metadata: RetryMetadata,
+  result: Pick<RetryAttemptRecord, "success" | "error" | "errorClass" | "serverHintMs">
+): void {
+  const current = metadata.history[metadata.history.length - 1];
+  if (current) {
+    Object.assign(current, result, { finishedAt: Date.now() });
+  }
+}
+
+function retryOperationStatus(metadata: RetryMetadata): string {
+  if (metadata.success) return "succeeded";
+  if (metadata.fatal) return "failed";
+  if (metadata.attempts === 0) return "not_started";
+  const current = metadata.history[metadata.history.length - 1];
+  if (current && current.success === undefined) return "in_progress";
+  if (metadata.attempts >= metadata.maxRetries) return "max_retries_exceeded";
+  return "retry_scheduled";
+}
+
+function describeRetryOperation(operationId: string, metadata: RetryMetadata) {
+  const status = retryOperationStatus(metadata);
+  const waitMs = requiredRetryDelay(metadata) - (Date.now() - metadata.lastAttempt);
+  return {
+    operation_id: operationId,
+    status,
+    attempts: metadata.attempts,
+    max_retries: metadata.maxRetries,
+    last_attempt: metadata.attempts > 0 ? new Date(metadata.lastAttempt).toISOString() : null,
+    ...(status === "retry_scheduled" && { wait_ms: Math.max(0, waitMs) }),
+    last_error: metadata.lastError,
+    error_class: metadata.errorClass,
+    resource: metadata.resource
+  };
+}
+
+// Retry budgets: retries may not exceed a share of requests per resource
+interface RetryBudget {
+  // Maximum retries as a fraction of first attempts in the window
+  ratio: number;
+  windowMs: number;
+  // Retries always allowed per window, so low-traffic resources can still retry
+  minRetries: number;
+  requests: number[];
+  retries: number[];
+  configured: boolean;
+}
+
+const retryBudgets = new Map<string, RetryBudget>();
+
+// Operations without a resource share one global budget
+function retryBudgetKey(metadata: RetryMetadata): string {
+  return metadata.resource ?? "default";
+}
+
+function getRetryBudget(key: string): RetryBudget {
+  let budget = retryBudgets.get(key);
+  if (!budget) {
+    budget = {
+      ratio: 0.2,
+      windowMs: 60000,
+      minRetries: 10,
+      requests: [],
+      retries: [],
+      configured: false
+    };
+    retryBudgets.set(key, budget);
+  }
+  return budget;
+}
+
+function pruneRetryBudget(budget: RetryBudget): void {
+  const cutoff = Date.now() - budget.windowMs;
+  budget.requests = budget.requests.filter(t => t > cutoff);
+  budget.retries = budget.retries.filter(t => t > cutoff);
+}
+
+function retryBudgetLimit(budget: RetryBudget): number {
+  return Math.max(budget.minRetries, Math.floor(budget.requests.length * budget.ratio));
+}
+
+function retryBudgetAllows(budget: RetryBudget): boolean {
+  pruneRetryBudget(budget);
+  return budget.retries.length < retryBudgetLimit(budget);
+}
+
+function describeRetryBudget(key: string, budget: RetryBudget) {
+  pruneRetryBudget(budget);
+  const limit = retryBudgetLimit(budget);
+  return {
+    resource: key,
+    requests: budget.requests.length,
+    retries: budget.retries.length,
+    retry_limit: limit,
+    remaining_retries: Math.max(0, limit - budget.retries.length),
+    exhausted: budget.retries.length >= limit,
+    ratio: budget.ratio,
+    min_retries: budget.minRetries,
+    window_seconds: budget.windowMs / 1000
+  };
+}
+
+// Time the next attempt must wait after the last one started
+function requiredRetryDelay(metadata: RetryMetadata): number {
+  if (metadata.attempts === 0) {
+    return 0;
+  }
+  return Math.max(
+    metadata.nextDelayMs ?? 0,
+    (metadata.retryAfterUntil ?? 0) - metadata.lastAttempt
+  );
+}
+
+// Error classes callers can report; anything not listed here is fatal
+const RETRYABLE_ERROR_CLASSES = ["network", "timeout", "rate_limited", "server_error", "unknown"];
+
+function isRetryableErrorClass(errorClass: string): boolean {
+  return RETRYABLE_ERROR_CLASSES.includes(errorClass);
+}
+
+// Error class implied by an HTTP status code
+function errorClassFromStatus(status: number): string {
+  if (status === 429) return "rate_limited";
+  if (status === 408) return "timeout";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not_found";
+  if (status >= 500) return "server_error";
+  if (status >= 400) return "client_error";
+  return "unknown";
+}
+
+// Circuit breakers keyed by resource
+type CircuitState = "closed" | "open" | "half_open";
+
+interface CircuitBreaker {
+  failureThreshold: number;
+  windowMs: number;
+  cooldownMs: number;
+  state: CircuitState;
+  // Timestamps of failures inside the rolling window
+  failures: number[];
+  openedAt: number;
+  // When the single half-open trial request was let through
+  probeStartedAt?: number;
+}
+
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+function getCircuitBreaker(resource: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(resource);
+  if (!breaker) {
+    breaker = {
+      failureThreshold: 5,
+      windowMs: 60000,
+      cooldownMs: 30000,
+      state: "closed",
+      failures: [],
+      openedAt: 0
+    };
+    circuitBreakers.set(resource, breaker);
+  }
+  return breaker;
+}
+
+// Move an open circuit to half-open once its cool-down has elapsed
+function refreshCircuitState(breaker: CircuitBreaker): CircuitState {
+  const now = Date.now();
+  if (breaker.state === "open" && now - breaker.openedAt >= breaker.cooldownMs) {
+    breaker.state = "half_open";
+    breaker.probeStartedAt = undefined;
+  }
+  breaker.failures = breaker.failures.filter(t => t > now - breaker.windowMs);
+  return breaker.state;
+}
+
+// Whether a request may go through; a half-open circuit admits one trial at a time
+function circuitAllows(breaker: CircuitBreaker, acquire: boolean): boolean {
+  const state = refreshCircuitState(breaker);
+  if (state === "closed") {
+    return true;
+  }
+  if (state === "open") {
+    return false;
+  }
+
+  // A trial that never reported back stops blocking after another cool-down
+  const probeActive = breaker.probeStartedAt !== undefined &&
+    Date.now() - breaker.probeStartedAt < breaker.cooldownMs;
+  if (probeActive) {
+    return false;
+  }
+  if (acquire) {
+    breaker.probeStartedAt = Date.now();
+  }
+  return true;
+}
+
+function recordCircuitResult(resource: string, success: boolean): CircuitBreaker {
+  const breaker = getCircuitBreaker(resource);
+  const state = refreshCircuitState(breaker);
+  const now = Date.now();
+
+  if (success) {
+    if (state === "half_open") {
+      breaker.state = "closed";
+      breaker.failures = [];
+    }
+  } else if (state === "half_open") {
+    breaker.state = "open";
+    breaker.openedAt = now;
+  } else if (state === "closed") {
+    breaker.failures.push(now);
+    if (breaker.failures.length >= breaker.failureThreshold) {
+      breaker.state = "open";
+      breaker.openedAt = now;
+    }
+  }
+  breaker.probeStartedAt = undefined;
+
+  return breaker;
+}
+
+// A fatal error says nothing about the upstream's health, but it does end a
+// half-open trial; free the slot so the next attempt can probe
+function releaseCircuitProbe(resource: string): void {
+  const breaker = circuitBreakers.get(resource);
+  if (breaker) {
+    breaker.probeStartedAt = undefined;
+  }
+}
+
+function describeCircuit(resource: string, breaker: CircuitBreaker) {
+  const state = refreshCircuitState(breaker);
+  return {
+    resource,
+    state,
+    allowed: circuitAllows(breaker, false),
+    recent_failures: breaker.failures.length,
+    failure_threshold: breaker.failureThreshold,
+    window_seconds: breaker.windowMs / 1000,
+    cooldown_seconds: breaker.cooldownMs / 1000,
+    ...(state === "open" && {
+      retry_in_ms: Math.max(0, breaker.openedAt + breaker.cooldownMs - Date.now())
+    })
+  };
+}
+
+// Default breaker resource for an operation: the host for HTTP requests
+function operationResource(operationType: string, operationData: any): string | undefined {
+  if (operationType === "http_request" && typeof operationData?.url === "string") {
+    try {
+      return new URL(operationData.url).host;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+// Operation types retry_operation executes itself; the rest use the cooperative protocol
+const retryExecutors: Record<string, (data: any) => Promise<any>> = {
+  http_request: (data) => executeHttpRequest(data),
+  file_operation: (data) => executeFileOperation(data)
+};
+
+// Handlers batch_operation runs for each op.type; the signal aborts on timeout
+type BatchHandler = (data: any, signal: AbortSignal) => Promise<any>;
+
+const batchHandlers: Record<string, BatchHandler> = {
+  http_request: (data, signal) => executeHttpRequest(data, signal),
+  file_operation: (data) => executeFileOperation(data),
+  json_transform: async (data) => applyJsonTransform(data),
+  cache_get: async (data) => {
+    if (!data?.key) {
+      throw new OperationError("cache_get requires a key", false);
+    }
+    return readCacheEntry(data.key, data.namespace ?? "default");
+  }
+};
+
+// Retry and rate-limit settings for one operation: the batch's, overridden by the op's own
+interface BatchPolicy {
+  retry?: {
+    // Total attempts, as in retry_operation
+    maxRetries: number;
+    maxRetryAfterMs: number;
+    backoff: BackoffOptions;
+  };
+  rateLimit?: {
+    resource: string;
+    cost: number;
+    maxWaitMs: number;
+    // Registers the resource's limit if it is dropped while the batch runs
+    args: any;
+  };
+}
+
+// Schema for the retry policy of a batch or of one of its operations
+const batchRetrySchema = (() => {
+  const { dry_run, ...backoffProperties } = backoffSchemaProperties;
+  return {
+    type: "object",
+    description: "Retry retryable failures (network errors, timeouts, retryable status codes) with backoff, as retry_operation does",
+    properties: {
+      max_retries: {
+        type: "number",
+        description: "Maximum attempts per operation",
+        default: 3,
+        minimum: 1,
+        maximum: 10
+      },
+      initial_delay_ms: {
+        type: "number",
+        description: "Delay before the first retry; later delays follow the strategy",
+        default: 1000,
+        minimum: 100,
+        maximum: 60000
+      },
+      ...backoffProperties,
+      max_retry_after_ms: {
+        type: "number",
+        description: "Cap on Retry-After and rate limit reset hints from failed http_request responses",
+        default: 300000,
+        minimum: 0
+      }
+    }
+  };
+})();
+
+// Schema for the rate limit an operation waits on before each attempt
+const batchRateLimitSchema = {
+  type: "object",
+  description: "Wait for capacity on a rate_limit_check resource before each attempt; the first use registers the limit",
+  properties: {
+    resource: {
+      type: "string",
+      description: "Rate limit resource, shared with rate_limit_check and rate_limit_acquire"
+    },
+    ...rateLimitSchemaProperties,
+    cost: {
+      type: "number",
+      description: "Units each attempt consumes",
+      default: 1,
+      exclusiveMinimum: 0
+    },
+    max_wait_ms: {
+      type: "number",
+      description: "How long an attempt may wait for capacity before the operation fails",
+      default: 30000,
+      minimum: 0
+    }
+  },
+  required: ["resource"]
+};
+
+function batchPolicyFromArgs(retryArgs: any, rateLimitArgs: any): BatchPolicy {
+  const policy: BatchPolicy = {};
+
+  if (retryArgs) {
+    const { max_retries = 3, max_retry_after_ms = 300000 } = retryArgs;
+    policy.retry = {
+      maxRetries: max_retries,
+      maxRetryAfterMs: max_retry_after_ms,
+      backoff: backoffOptionsFromArgs(retryArgs, { jitter: false })
+    };
+  }
+
+  if (rateLimitArgs) {
+    const { resource, cost = 1, max_wait_ms = 30000 } = rateLimitArgs;
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, "rate_limit requires a resource");
+    }
+    const limiter = getRateLimiter(resource, rateLimitArgs);
+    validateRateLimitCost(rateLimitScopes(resource, limiter), cost);
+    policy.rateLimit = { resource, cost, maxWaitMs: max_wait_ms, args: rateLimitArgs };
+  }
+
+  return policy;
+}
+
+interface BatchOptions {
+  concurrency: number;
+  timeoutMs: number;
+  continueOnError: boolean;
+  useCache: boolean;
+  cacheTtlSeconds: number;
+  // By operation ID; operations without one run once with no rate limit
+  policies?: Map<string, BatchPolicy>;
+}
+
+// Rejects an operation that was in flight when its batch job was cancelled
+class BatchCancelledError extends Error {}
+
+interface BatchHooks {
+  // Aborting cancels in-flight operations and starts no more
+  signal?: AbortSignal;
+  onStart?: (op: any) => void;
+  onResult?: (result: any) => void;
+}
+
+// One attempt of an operation, aborted when it times out or the batch is cancelled
+async function attemptBatchOperation(op: any, timeoutMs: number, signal?: AbortSignal): Promise<any> {
+  // Aborted on timeout or cancellation, and afterwards to clear the timeout timer
+  const controller = new AbortController();
+  const cancelled = new Promise<never>((_, reject) => {
+    const onAbort = () => reject(new BatchCancelledError(`Operation ${op.id} cancelled`));
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    controller.signal.addEventListener("abort", () => signal?.removeEventListener("abort", onAbort), { once: true });
+  });
+
+  try {
+    return await Promise.race([
+      batchHandlers[op.type](op.data, controller.signal),
+      setTimeout(timeoutMs, undefined, { signal: controller.signal }).then(() => {
+        controller.abort();
+        throw new OperationError(`Operation ${op.id} timed out`, true);
+      }),
+      cancelled
+    ]);
+  } finally {
+    controller.abort();
+  }
+}
+
+/**
+ * Run one operation under its policy: wait for rate limit capacity before each
+ * attempt and retry retryable failures with backoff, honoring Retry-After hints.
+ *
+ * `progress` is updated as it goes so failures can report attempts too.
+ */
+async function runBatchOperation(
+  op: any,
+  policy: BatchPolicy,
+  timeoutMs: number,
+  progress: { attempts: number; rateLimitWaitMs: number },
+  signal?: AbortSignal
+): Promise<any> {
+  const { retry, rateLimit } = policy;
+  let previousDelayMs: number | undefined;
+
+  while (true) {
+    if (rateLimit) {
+      const { resource, cost, maxWaitMs, args } = rateLimit;
+      const startedAt = Date.now();
+      const decision = await acquireRateLimit(resource, getRateLimiter(resource, args), cost, maxWaitMs, signal);
+      progress.rateLimitWaitMs += Date.now() - startedAt;
+
+      if (signal?.aborted) {
+        throw new BatchCancelledError(`Operation ${op.id} cancelled`);
+      }
+      if (!decision) {
+        throw new OperationError(`No rate limit capacity for ${resource} within ${maxWaitMs}ms`, false);
+      }
+    }
+
+    progress.attempts += 1;
+    try {
+      return await attemptBatchOperation(op, timeoutMs, signal);
+    } catch (error) {
+      const retryable = error instanceof OperationError && error.retryable;
+      if (!retry || !retryable || progress.attempts >= retry.maxRetries) {
+        throw error;
+      }
+
+      const hintMs = retryAfterFromHeaders(error.details?.headers);
+      previousDelayMs = backoffDelay(progress.attempts, retry.backoff, previousDelayMs);
+      const delayMs = Math.max(previousDelayMs, Math.min(hintMs ?? 0, retry.maxRetryAfterMs));
+
+      try {
+        await setTimeout(delayMs, undefined, { signal });
+      } catch {
+        throw new BatchCancelledError(`Operation ${op.id} cancelled`);
+      }
+    }
+  }
+}
+
+// Cache key for an operation's result; equal data hashes the same whatever its key order
+function batchCacheKey(op: any): string {
+  const hash = createHash("sha256").update(canonicalJson(op.data)).digest("hex");
+  return `batch:${op.type}:${hash}`;
+}
+
+// Executions of cacheable operations in flight, shared by identical operations across batches
+const batchInFlight = new Map<string, Promise<any>>();
+
+// Reject with BatchCancelledError if the signal aborts before the promise settles
+function cancellable<T>(promise: Promise<T>, op: any, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new BatchCancelledError(`Operation ${op.id} cancelled`));
+    if (signal.aborted) {
+      onAbort();
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Run operations through their handlers with at most `concurrency` in flight.
+ *
+ * Operations start once everything in their `depends_on` has succeeded, with
+ * upstream results substituted into their data; if an upstream operation fails,
+ * its dependents are skipped. Resolves with the results in completion order.
+ * Operations never started (after a failure without continue_on_error, or a
+ * cancellation) have none.
+ */
+async function runBatch(operations: any[], options: BatchOptions, hooks: BatchHooks = {}): Promise<any[]> {
+  const { concurrency, timeoutMs, continueOnError, useCache, cacheTtlSeconds } = options;
+  const { signal, onStart, onResult } = hooks;
+
+  const results: any[] = [];
+  const queue = [...operations];
+  const inProgress = new Map<string, Promise<any>>();
+  // Results of succeeded operations, for their dependents' templates
+  const outputs = new Map<string, any>();
+  const failedIds = new Set<string>();
+  const record = (result: any) => {
+    if (result.success) {
+      outputs.set(result.id, result.result);
+    } else {
+      failedIds.add(result.id);
+    }
+    results.push(result);
+    onResult?.(result);
+  };
+
+  // Skip queued operations downstream of a failure, transitively
+  const skipDownstream = () => {
+    let skipped = true;
+    while (skipped) {
+      skipped = false;
+      for (const op of [...queue]) {
+        const upstream = (op.depends_on ?? []).find((id: string) => failedIds.has(id));
+        if (upstream === undefined) continue;
+        queue.splice(queue.indexOf(op), 1);
+        record({
+          id: op.id,
+          success: false,
+          skipped: true,
+          error: `Skipped because ${upstream} failed`
+        });
+        skipped = true;
+      }
+    }
+  };
+
+  // Next queued operation whose dependencies have all succeeded
+  const isReady = (op: any) => (op.depends_on ?? []).every((id: string) => outputs.has(id));
+  const takeReady = () => {
+    const index = queue.findIndex(isReady);
+    return index === -1 ? undefined : queue.splice(index, 1)[0];
+  };
+
+  // Cancelling drops everything still queued
+  signal?.addEventListener("abort", () => {
+    queue.length = 0;
+  }, { once: true });
+
+  // Process operations with controlled concurrency
+  while (queue.length > 0 || inProgress.size > 0) {
+    skipDownstream();
+
+    // Start new operations up to concurrency limit
+    let next: any;
+    while (inProgress.size < concurrency && (next = takeReady())) {
+      let op = next;
+      if (op.depends_on?.length > 0) {
+        try {
+          op = { ...op, data: resolveTemplates(op.data, outputs) };
+        } catch (error) {
+          record({ id: op.id, success: false, error: (error as Error).message });
+          if (!continueOnError) {
+            queue.length = 0;
+          }
+          continue;
+        }
+      }
+      
+      // Check cache first if enabled
+      const cacheKey = useCache ? batchCacheKey(op) : undefined;
+      if (cacheKey) {
+        const cached = cache.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now()) {
+          markEntryUsed(cacheKey, cached);
+          countCacheEvent("batch", "hits");
+          record({
+            id: op.id,
+            success: true,
+            cached: true,
+            result: cached.value
+          });
+          continue;
+        }
+        countCacheEvent("batch", "misses");
+      }
+
+      onStart?.(op);
+
+      const policy = options.policies?.get(op.id) ?? {};
+      const progress = { attempts: 0, rateLimitWaitMs: 0 };
+
+      const execute = () => runBatchOperation(op, policy, timeoutMs, progress, signal).then(result => {
+        // Cache result if enabled; a result too large to cache is still a success
+        if (cacheKey) {
+          try {
+            cacheSet(cacheKey, result, cacheTiming(cacheTtlSeconds));
+          } catch (error) {
+            console.error(`Not caching result of ${op.id}: ${(error as Error).message}`);
+          }
+        }
+
+        return result;
+      });
+
+      // Identical operations already running share that execution. If it was
+      // cancelled along with its own batch, this one runs by itself instead.
+      const shared = cacheKey ? batchInFlight.get(cacheKey) : undefined;
+      let promise: Promise<any>;
+      if (shared) {
+        promise = cancellable(shared, op, signal).catch(error => {
+          if (error instanceof BatchCancelledError && !signal?.aborted) {
+            return execute();
+          }
+          throw error;
+        });
+      } else {
+        promise = execute();
+        if (cacheKey) {
+          const leader = promise;
+          const forget = () => {
+            if (batchInFlight.get(cacheKey) === leader) {
+              batchInFlight.delete(cacheKey);
+            }
+          };
+          batchInFlight.set(cacheKey, leader);
+          leader.then(forget, forget);
+        }
+      }
+
+      // Attempt counts only add information when the op may retry
+      const details = () => progress.attempts === 0 && shared ? { deduplicated: true } : {
+        ...(policy.retry && { attempts: progress.attempts }),
+        ...(policy.rateLimit && { rate_limit_wait_ms: progress.rateLimitWaitMs })
+      };
+      
+      // Handle completion; the tracked promise never rejects, so one
+      // failure doesn't abort the wait for the rest of the batch
+      const tracked = promise
+        .then(result => {
+          record({
+            id: op.id,
+            success: true,
+            result,
+            ...details()
+          });
+        })
+        .catch(error => {
+          record({
+            id: op.id,
+            success: false,
+            error: error.message,
+            ...details(),
+            ...(error instanceof BatchCancelledError && { cancelled: true })
+          });
+          
+          if (!continueOnError) {
+            // Cancel remaining operations
+            queue.length = 0;
+          }
+        })
+        .finally(() => {
+          inProgress.delete(op.id);
+        });
+
+      inProgress.set(op.id, tracked);
+    }
+    
+    // Wait for at least one operation to complete
+    if (inProgress.size > 0) {
+      await Promise.race(inProgress.values());
+    } else {
+      skipDownstream();
+      // Unreachable for graphs that passed validateBatchGraph
+      if (queue.length > 0 && !queue.some(isReady)) {
+        throw new Error("Batch operations are waiting on each other");
+      }
+    }
+  }
+
+  return results;
+}
+
+// Detached batch_operation runs
+interface BatchJob {
+  id: string;
+  status: "running" | "completed" | "cancelled";
+  total: number;
+  // Results in completion order, so callers can fetch new ones incrementally
+  results: any[];
+  // IDs of operations currently in flight
+  running: Set<string>;
+  createdAt: number;
+  finishedAt?: number;
+  controller: AbortController;
+}
+
+const batchJobs = new Map<string, BatchJob>();
+
+function startBatchJob(operations: any[], options: BatchOptions): BatchJob {
+  const job: BatchJob = {
+    id: randomUUID(),
+    status: "running",
+    total: operations.length,
+    results: [],
+    running: new Set(),
+    createdAt: Date.now(),
+    controller: new AbortController()
+  };
+  batchJobs.set(job.id, job);
+  // Each in-flight operation holds one abort listener at a time, plus runBatch's own
+  setMaxListeners(options.concurrency + 1, job.controller.signal);
+
+  runBatch(operations, options, {
+    signal: job.controller.signal,
+    onStart: op => job.running.add(op.id),
+    onResult: result => {
+      job.running.delete(result.id);
+      job.results.push(result);
+    }
+  })
+    .catch(error => console.error(`Batch job ${job.id} failed: ${(error as Error).message}`))
+    .finally(() => {
+      if (job.status === "running") {
+        job.status = "completed";
+      }
+      job.finishedAt = Date.now();
+    });
+
+  return job;
+}
+
+function getBatchJob(jobId: string): BatchJob {
+  const job = batchJobs.get(jobId);
+  if (!job) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown batch job: ${jobId}`);
+  }
+  return job;
+}
+
+function describeBatchJob(job: BatchJob) {
+  const succeeded = job.results.filter(r => r.success).length;
+  const cancelled = job.results.filter(r => r.cancelled).length;
+  const skipped = job.results.filter(r => r.skipped).length;
+  const failed = job.results.length - succeeded - cancelled - skipped;
+  // Operations neither finished nor in flight are queued, or will never start once the job stops
+  const notStarted = job.total - job.results.length - job.running.size;
+  const stopped = job.status !== "running" || job.controller.signal.aborted;
+
+  return {
+    job_id: job.id,
+    status: job.status,
+    total: job.total,
+    pending: stopped ? 0 : notStarted,
+    running: job.running.size,
+    succeeded,
+    failed,
+    skipped,
+    cancelled: cancelled + (stopped ? notStarted : 0),
+    created_at: new Date(job.createdAt).toISOString(),
+    finished_at: job.finishedAt ? new Date(job.finishedAt).toISOString() : null,
+    duration_ms: (job.finishedAt ?? Date.now()) - job.createdAt
+  };
+}
+
+// Cache namespace holding batch results for batch_results to page through
+const BATCH_RESULTS_NAMESPACE = "batch_results";
+
+// Report progress to clients that sent a progress token with their request
+function sendProgress(progressToken: string | number | undefined, progress: number, total: number): void {
+  if (progressToken === undefined) {
+    return;
+  }
+  server.notification({
+    method: "notifications/progress",
+    params: { progressToken, progress, total }
+  }).catch(error => console.error(`Failed to send progress: ${(error as Error).message}`));
+}
 
 // Clean up expired cache entries periodically
 setInterval(() => {
   const now = Date.now();
   for (const [key, entry] of cache.entries()) {
     if (entry.expiresAt <= now) {
-      cache.delete(key);
+      cacheDelete(key);
+      countCacheEvent(parseCacheKey(key).namespace, "expirations");
     }
   }
+  cacheStorage.compact(cache);
   
   // Clean old retry metadata (older than 1 hour)
   for (const [key, meta] of retryMetadata.entries()) {
@@ -39,6 +1170,28 @@ setInterval(() => {
       retryMetadata.delete(key);
     }
   }
+
+  // Drop idle retry budgets that were never explicitly configured
+  for (const [key, budget] of retryBudgets.entries()) {
+    pruneRetryBudget(budget);
+    if (!budget.configured && budget.requests.length === 0 && budget.retries.length === 0) {
+      retryBudgets.delete(key);
+    }
+  }
+
+  // Forget finished batch jobs after an hour
+  for (const [id, job] of batchJobs.entries()) {
+    if (job.finishedAt !== undefined && job.finishedAt < now - 3600000) {
+      batchJobs.delete(id);
+    }
+  }
+
+  // Drop rate limiters back at full capacity, unless registered through rate_limit_configure
+  for (const [key, limiter] of rateLimits.entries()) {
+    if (!limiter.persistent && !rateLimitWaiters.has(key) && isRateLimiterIdle(limiter, now)) {
+      rateLimits.delete(key);
+    }
+  }
 }, 60000); // Clean every minute
 
 // Create server
@@ -55,7 +1208,7 @@ const server = new Server({
 const tools = [
   {
     name: "retry_operation",
-    description: "Retry an operation with exponential backoff. Use this for operations that might fail temporarily (API calls, network requests, etc.)",
+    description: "Retry an operation with configurable backoff (exponential by default). http_request and file_operation are executed server-side and return the final result with the attempt history; other types return execute_attempt instructions for the caller to run. Use this for operations that might fail temporarily (API calls, network requests, etc.)",
     inputSchema: {
       type: "object",
       properties: {
@@ -70,7 +1223,7 @@ const tools = [
         },
         operation_data: {
           type: "object",
-          description: "Data specific to the operation (e.g., URL for HTTP, query for DB)"
+          description: "Data specific to the operation. http_request: { url, method, headers, body, retry_on_status, timeout_ms }. file_operation: { action: 'read' | 'write' | 'stat', path, content, encoding }."
         },
         max_retries: {
           type: "number",
@@ -80,17 +1233,254 @@ const tools = [
         },
         initial_delay_ms: {
           type: "number",
+          description: "Delay before the first retry; later delays follow the strategy",
           default: 1000,
           minimum: 100,
           maximum: 60000
         },
+        ...backoffSchemaProperties,
+        jitter: {
+          ...backoffSchemaProperties.jitter,
+          default: false
+        },
         should_execute: {
           type: "boolean",
           description: "If false, just returns retry metadata without executing",
           default: true
+        },
+        resource: {
+          type: "string",
+          description: "Circuit breaker resource for this operation (defaults to the URL host for http_request). Attempts are refused with circuit_open while its circuit is open."
+        },
+        outcome: {
+          type: "object",
+          description: "Report the result of the last execute_attempt. The server records success, or decides whether the failure is worth retrying.",
+          properties: {
+            success: {
+              type: "boolean",
+              description: "Whether the attempt succeeded"
+            },
+            error: {
+              type: "string",
+              description: "Error message from the failed attempt"
+            },
+            error_class: {
+              type: "string",
+              enum: ["network", "timeout", "rate_limited", "server_error", "client_error", "auth", "not_found", "validation", "unknown"],
+              description: "Kind of failure. network, timeout, rate_limited, server_error and unknown are retried; the rest are fatal."
+            },
+            retryable: {
+              type: "boolean",
+              description: "Override the retryable/fatal classification derived from error_class"
+            },
+            retry_after_ms: {
+              type: "number",
+              description: "Minimum wait before the next attempt; takes precedence over response_headers",
+              minimum: 0
+            },
+            status_code: {
+              type: "number",
+              description: "HTTP status of the failed attempt, used to derive error_class when it is omitted (429 rate_limited, 5xx server_error, 408 timeout, 401/403 auth, 404 not_found, other 4xx client_error)"
+            },
+            response_headers: {
+              type: "object",
+              description: "Response headers of the failed attempt. Retry-After, retry-after-ms, RateLimit-Reset and X-RateLimit-Reset set the minimum wait before the next attempt."
+            }
+          },
+          required: ["success"]
+        },
+        max_retry_after_ms: {
+          type: "number",
+          description: "Upper bound on waits requested by the server through retry_after_ms or response headers",
+          default: 300000,
+          minimum: 0
+        },
+        update_rate_limit: {
+          type: "boolean",
+          description: "Also block the resource in rate_limit_check until the server-requested wait has passed",
+          default: false
+        }
+      },
+      required: ["operation_id"]
+    }
+  },
+  {
+    name: "retry_list",
+    description: "List operations tracked by retry_operation with their attempts, last attempt time and status",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["not_started", "in_progress", "retry_scheduled", "succeeded", "failed", "max_retries_exceeded"],
+          description: "Only list operations in this status"
+        },
+        prefix: {
+          type: "string",
+          description: "Only list operation IDs starting with this prefix"
+        },
+        offset: {
+          type: "number",
+          description: "Number of matching operations to skip",
+          default: 0,
+          minimum: 0
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of operations to return",
+          default: 50,
+          minimum: 1,
+          maximum: 500
+        }
+      }
+    }
+  },
+  {
+    name: "retry_get",
+    description: "Get one tracked operation's retry state with its full attempt history (start times, delays, reported errors)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operation_id: {
+          type: "string",
+          description: "Operation to inspect"
+        }
+      },
+      required: ["operation_id"]
+    }
+  },
+  {
+    name: "retry_reset",
+    description: "Reset an operation's retry state so the next retry_operation call starts over from the first attempt, or delete it entirely",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operation_id: {
+          type: "string",
+          description: "Operation to reset"
+        },
+        delete: {
+          type: "boolean",
+          description: "Forget the operation instead of keeping it listed as not_started",
+          default: false
+        }
+      },
+      required: ["operation_id"]
+    }
+  },
+  {
+    name: "circuit_breaker_record",
+    description: "Record a success or failure against a resource's circuit breaker. Enough failures in the window open the circuit.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource identifier (e.g., 'api.github.com')"
+        },
+        success: {
+          type: "boolean",
+          description: "Whether the call to the resource succeeded"
+        }
+      },
+      required: ["resource", "success"]
+    }
+  },
+  {
+    name: "circuit_breaker_check",
+    description: "Check whether a resource's circuit is closed (healthy), open (failing fast) or half-open (allowing a trial request)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource identifier (e.g., 'api.github.com')"
+        }
+      },
+      required: ["resource"]
+    }
+  },
+  {
+    name: "circuit_breaker_configure",
+    description: "Configure a resource's circuit breaker thresholds",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource identifier (e.g., 'api.github.com')"
+        },
+        failure_threshold: {
+          type: "number",
+          description: "Failures within the window that open the circuit",
+          default: 5,
+          minimum: 1
+        },
+        window_seconds: {
+          type: "number",
+          description: "Rolling window in which failures are counted",
+          default: 60,
+          minimum: 1
+        },
+        cooldown_seconds: {
+          type: "number",
+          description: "How long the circuit stays open before allowing a trial request",
+          default: 30,
+          minimum: 1
+        },
+        reset: {
+          type: "boolean",
+          description: "Close the circuit and forget recorded failures",
+          default: false
+        }
+      },
+      required: ["resource"]
+    }
+  },
+  {
+    name: "retry_budget_status",
+    description: "Show retry budget usage (requests, retries, remaining retries) for one resource or all resources",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource to report, or all tracked resources if not specified"
+        }
+      }
+    }
+  },
+  {
+    name: "retry_budget_configure",
+    description: "Configure the retry budget for a resource. Retries are refused once they exceed the ratio of first attempts in the window.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource identifier ('default' for operations without a resource)"
+        },
+        ratio: {
+          type: "number",
+          description: "Maximum retries as a fraction of requests in the window",
+          default: 0.2,
+          minimum: 0,
+          maximum: 10
+        },
+        window_seconds: {
+          type: "number",
+          description: "Sliding window in seconds",
+          default: 60,
+          minimum: 1
+        },
+        min_retries: {
+          type: "number",
+          description: "Retries always allowed per window regardless of traffic",
+          default: 10,
+          minimum: 0
         }
       },
-      required: ["operation_id", "operation_type", "operation_data"]
+      required: ["resource"]
     }
   },
   {
@@ -132,15 +1522,57 @@ const tools = [
           minimum: 1,
           maximum: 86400 // 24 hours
         },
+        stale_ttl_seconds: {
+          type: "number",
+          description: "Extra seconds after the TTL during which cache_get still returns the value, flagged stale",
+          default: 0,
+          minimum: 0,
+          maximum: 86400
+        },
+        sliding: {
+          type: "boolean",
+          description: "Reset the TTL on every cache_get (expire only after ttl_seconds without access)",
+          default: false
+        },
         namespace: {
           type: "string",
           description: "Optional namespace to prevent key collisions",
           default: "default"
+        },
+        tags: {
+          type: "array",
+          items: { type: "string" },
+          description: "Tags for grouped invalidation with cache_invalidate (e.g., 'repo:org/x', 'file:src/index.ts')"
         }
       },
       required: ["key", "value"]
     }
   },
+  {
+    name: "cache_touch",
+    description: "Extend a cache entry's TTL without rewriting its value",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: {
+          type: "string",
+          description: "Cache key to extend"
+        },
+        ttl_seconds: {
+          type: "number",
+          description: "New TTL in seconds from now (defaults to the entry's original TTL)",
+          minimum: 1,
+          maximum: 86400
+        },
+        namespace: {
+          type: "string",
+          description: "Optional namespace",
+          default: "default"
+        }
+      },
+      required: ["key"]
+    }
+  },
   {
     name: "cache_delete",
     description: "Delete a key from the cache",
@@ -174,87 +1606,511 @@ const tools = [
     }
   },
   {
-    name: "batch_operation",
-    description: "Process multiple operations with configurable concurrency and error handling",
+    name: "cache_invalidate",
+    description: "Delete cache entries by tag or by key pattern, optionally within one namespace. Use this to drop every cached response derived from something that changed.",
     inputSchema: {
       type: "object",
       properties: {
-        operations: {
+        tags: {
           type: "array",
-          description: "Array of operations to process",
+          items: { type: "string" },
+          description: "Delete entries carrying any of these tags"
+        },
+        pattern: {
+          type: "string",
+          description: "Delete entries whose key matches this glob pattern (* and ?)"
+        },
+        regex: {
+          type: "string",
+          description: "Delete entries whose key matches this regular expression"
+        },
+        namespace: {
+          type: "string",
+          description: "Only invalidate within this namespace, or all namespaces if not specified"
+        }
+      }
+    }
+  },
+  {
+    name: "cache_mget",
+    description: "Get multiple values from the cache in one call. Results are returned in input order with misses reported.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        keys: {
+          type: "array",
+          description: "Keys to retrieve",
           items: {
             type: "object",
             properties: {
-              id: {
+              key: {
                 type: "string",
-                description: "Unique identifier for this operation"
+                description: "Cache key"
               },
-              type: {
+              namespace: {
                 type: "string",
-                description: "Type of operation"
+                description: "Namespace for this key (overrides the top-level namespace)"
+              }
+            },
+            required: ["key"]
+          },
+          minItems: 1,
+          maxItems: 100
+        },
+        namespace: {
+          type: "string",
+          description: "Default namespace for keys that don't specify one",
+          default: "default"
+        }
+      },
+      required: ["keys"]
+    }
+  },
+  {
+    name: "cache_mput",
+    description: "Store multiple values in the cache in one call, each with an optional namespace and TTL",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entries: {
+          type: "array",
+          description: "Entries to store",
+          items: {
+            type: "object",
+            properties: {
+              key: {
+                type: "string",
+                description: "Cache key"
               },
-              data: {
-                type: "object",
-                description: "Operation-specific data"
+              value: {
+                description: "Value to cache (any JSON-serializable data)"
+              },
+              ttl_seconds: {
+                type: "number",
+                description: "Time to live in seconds (overrides the top-level TTL)",
+                minimum: 1,
+                maximum: 86400
+              },
+              namespace: {
+                type: "string",
+                description: "Namespace for this key (overrides the top-level namespace)"
+              },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Tags for grouped invalidation with cache_invalidate"
               }
             },
-            required: ["id", "type", "data"]
+            required: ["key", "value"]
           },
           minItems: 1,
           maxItems: 100
         },
-        concurrency: {
+        ttl_seconds: {
           type: "number",
-          description: "Maximum number of concurrent operations",
-          default: 5,
+          description: "Default time to live in seconds",
+          default: 300,
           minimum: 1,
-          maximum: 20
-        },
-        timeout_ms: {
-          type: "number",
-          description: "Timeout per operation in milliseconds",
-          default: 30000,
-          minimum: 1000,
-          maximum: 300000
-        },
-        continue_on_error: {
-          type: "boolean",
-          description: "Continue processing even if some operations fail",
-          default: true
-        },
-        use_cache: {
-          type: "boolean",
-          description: "Cache successful results",
-          default: false
+          maximum: 86400
         },
-        cache_ttl_seconds: {
-          type: "number",
-          description: "TTL for cached results",
-          default: 300
+        namespace: {
+          type: "string",
+          description: "Default namespace for entries that don't specify one",
+          default: "default"
         }
       },
-      required: ["operations"]
+      required: ["entries"]
     }
   },
   {
-    name: "rate_limit_check",
-    description: "Check if an operation should be rate-limited",
+    name: "cache_mdelete",
+    description: "Delete multiple keys from the cache in one call",
     inputSchema: {
       type: "object",
       properties: {
-        resource: {
+        keys: {
+          type: "array",
+          description: "Keys to delete",
+          items: {
+            type: "object",
+            properties: {
+              key: {
+                type: "string",
+                description: "Cache key"
+              },
+              namespace: {
+                type: "string",
+                description: "Namespace for this key (overrides the top-level namespace)"
+              }
+            },
+            required: ["key"]
+          },
+          minItems: 1,
+          maxItems: 100
+        },
+        namespace: {
           type: "string",
-          description: "Resource identifier (e.g., 'api.github.com')"
+          description: "Default namespace for keys that don't specify one",
+          default: "default"
+        }
+      },
+      required: ["keys"]
+    }
+  },
+  {
+    name: "cache_cas",
+    description: "Compare-and-set: store a value only if the current entry matches the expected version or value. Use this to coordinate between parallel sessions.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: {
+          type: "string",
+          description: "Cache key"
+        },
+        value: {
+          description: "New value to store (any JSON-serializable data)"
         },
-        max_requests: {
+        expected_version: {
           type: "number",
-          description: "Maximum requests allowed",
-          default: 60
+          description: "Version the entry must currently have (0 means the key must not exist)",
+          minimum: 0
         },
-        window_seconds: {
+        expected_value: {
+          description: "Value the entry must currently hold (compared as JSON)"
+        },
+        ttl_seconds: {
+          type: "number",
+          description: "Time to live in seconds",
+          default: 300,
+          minimum: 1,
+          maximum: 86400
+        },
+        namespace: {
+          type: "string",
+          description: "Optional namespace to prevent key collisions",
+          default: "default"
+        }
+      },
+      required: ["key", "value"]
+    }
+  },
+  {
+    name: "cache_incr",
+    description: "Atomically add to a numeric counter, creating it if missing. Useful for counters and lightweight coordination.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: {
+          type: "string",
+          description: "Cache key of the counter"
+        },
+        delta: {
+          type: "number",
+          description: "Amount to add (negative to decrement)",
+          default: 1
+        },
+        initial_value: {
+          type: "number",
+          description: "Starting value when the counter does not exist yet",
+          default: 0
+        },
+        ttl_seconds: {
+          type: "number",
+          description: "Time to live in seconds. Defaults to 300 for new counters; existing counters keep their expiry unless this is set.",
+          minimum: 1,
+          maximum: 86400
+        },
+        namespace: {
+          type: "string",
+          description: "Optional namespace to prevent key collisions",
+          default: "default"
+        }
+      },
+      required: ["key"]
+    }
+  },
+  {
+    name: "cache_put_if_absent",
+    description: "Store a value only if the key does not already exist. Returns the existing entry otherwise.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: {
+          type: "string",
+          description: "Cache key"
+        },
+        value: {
+          description: "Value to cache (any JSON-serializable data)"
+        },
+        ttl_seconds: {
+          type: "number",
+          description: "Time to live in seconds",
+          default: 300,
+          minimum: 1,
+          maximum: 86400
+        },
+        namespace: {
+          type: "string",
+          description: "Optional namespace to prevent key collisions",
+          default: "default"
+        }
+      },
+      required: ["key", "value"]
+    }
+  },
+  {
+    name: "cache_list",
+    description: "List cached keys with TTL remaining and size. Supports namespace, prefix and glob filtering with pagination.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        namespace: {
+          type: "string",
+          description: "Only list keys in this namespace, or all namespaces if not specified"
+        },
+        prefix: {
+          type: "string",
+          description: "Only list keys starting with this prefix"
+        },
+        pattern: {
+          type: "string",
+          description: "Only list keys matching this glob pattern (* and ?)"
+        },
+        offset: {
+          type: "number",
+          description: "Number of matching entries to skip",
+          default: 0,
+          minimum: 0
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of entries to return",
+          default: 50,
+          minimum: 1,
+          maximum: 500
+        }
+      }
+    }
+  },
+  {
+    name: "cache_stats",
+    description: "Report cache usage and hit/miss/expiry/eviction counters per namespace",
+    inputSchema: {
+      type: "object",
+      properties: {
+        namespace: {
+          type: "string",
+          description: "Only report this namespace, or all namespaces if not specified"
+        },
+        reset: {
+          type: "boolean",
+          description: "Reset the counters after reporting them",
+          default: false
+        }
+      }
+    }
+  },
+  {
+    name: "batch_operation",
+    description: "Run multiple HTTP requests, file operations, JSON transforms and cache lookups with configurable concurrency, per-operation timeouts and error handling. Operations can depend on others and use their results.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operations: {
+          type: "array",
+          description: "Array of operations to process",
+          items: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Unique identifier for this operation"
+              },
+              type: {
+                type: "string",
+                enum: ["http_request", "file_operation", "json_transform", "cache_get"],
+                description: "Type of operation"
+              },
+              data: {
+                type: "object",
+                description: "Operation-specific data. http_request: { url, method, headers, body, retry_on_status, timeout_ms }. file_operation: { action: 'read' | 'write' | 'stat', path, content, encoding }. json_transform: { input, steps: [{ op: 'get' | 'pick' | 'omit' | 'filter' | 'map' | 'sort' | 'limit' | 'unique' | 'count' | 'merge', path, fields, equals, order, count, offset, value }] }. cache_get: { key, namespace }."
+              },
+              depends_on: {
+                type: "array",
+                items: { type: "string" },
+                description: "IDs of operations that must succeed before this one starts. Strings in data can then reference their results as {{op_id.path}}, e.g. {{user.body.id}}"
+              },
+              retry: {
+                ...batchRetrySchema,
+                description: "Retry policy for this operation; its fields override the batch retry policy"
+              },
+              rate_limit: {
+                ...batchRateLimitSchema,
+                description: "Rate limit for this operation; its fields override the batch rate_limit",
+                required: []
+              }
+            },
+            required: ["id", "type", "data"]
+          },
+          minItems: 1,
+          maxItems: 100
+        },
+        concurrency: {
+          type: "number",
+          description: "Maximum number of concurrent operations",
+          default: 5,
+          minimum: 1,
+          maximum: 20
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Timeout per operation attempt in milliseconds",
+          default: 30000,
+          minimum: 1000,
+          maximum: 300000
+        },
+        continue_on_error: {
+          type: "boolean",
+          description: "Continue processing even if some operations fail",
+          default: true
+        },
+        retry: batchRetrySchema,
+        rate_limit: batchRateLimitSchema,
+        use_cache: {
+          type: "boolean",
+          description: "Cache successful results",
+          default: false
+        },
+        cache_ttl_seconds: {
+          type: "number",
+          description: "TTL for cached results",
+          default: 300
+        },
+        result_mode: {
+          type: "string",
+          enum: ["full", "summary"],
+          description: "full returns every result; summary returns counts and failures, storing the results under a batch_id for batch_results",
+          default: "full"
+        },
+        results_ttl_seconds: {
+          type: "number",
+          description: "How long summary mode keeps the results available to batch_results",
+          default: 3600,
+          minimum: 1
+        },
+        detach: {
+          type: "boolean",
+          description: "Return a job_id immediately and run the batch in the background; follow it with batch_job_status, batch_job_results and batch_job_cancel",
+          default: false
+        }
+      },
+      required: ["operations"]
+    }
+  },
+  {
+    name: "batch_job_status",
+    description: "Get the status of a detached batch_operation job with pending, running, succeeded, failed, skipped and cancelled counts",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: {
+          type: "string",
+          description: "job_id returned by batch_operation with detach: true"
+        }
+      },
+      required: ["job_id"]
+    }
+  },
+  {
+    name: "batch_job_results",
+    description: "Fetch a detached batch job's results in completion order. Pass the returned next_offset to get only results that finished since the last call.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: {
+          type: "string",
+          description: "job_id returned by batch_operation with detach: true"
+        },
+        offset: {
+          type: "number",
+          description: "Number of completed results to skip",
+          default: 0,
+          minimum: 0
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of results to return",
+          default: 20,
+          minimum: 1,
+          maximum: 100
+        }
+      },
+      required: ["job_id"]
+    }
+  },
+  {
+    name: "batch_job_cancel",
+    description: "Cancel a detached batch job: in-flight operations are aborted and queued ones never start",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: {
+          type: "string",
+          description: "job_id returned by batch_operation with detach: true"
+        }
+      },
+      required: ["job_id"]
+    }
+  },
+  {
+    name: "batch_results",
+    description: "Page through the results of a batch_operation run in summary mode",
+    inputSchema: {
+      type: "object",
+      properties: {
+        batch_id: {
+          type: "string",
+          description: "batch_id returned by batch_operation"
+        },
+        status: {
+          type: "string",
+          enum: ["all", "succeeded", "failed"],
+          description: "Only return results with this outcome",
+          default: "all"
+        },
+        offset: {
+          type: "number",
+          description: "Number of results to skip",
+          default: 0,
+          minimum: 0
+        },
+        limit: {
           type: "number",
-          description: "Time window in seconds",
-          default: 60
+          description: "Maximum number of results to return",
+          default: 20,
+          minimum: 1,
+          maximum: 100
+        }
+      },
+      required: ["batch_id"]
+    }
+  },
+  {
+    name: "rate_limit_check",
+    description: "Check if an operation should be rate-limited. The first check registers the resource's limit; later checks use the registered limit (change it with rate_limit_configure).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource identifier (e.g., 'api.github.com')"
+        },
+        ...rateLimitSchemaProperties,
+        cost: {
+          type: "number",
+          description: "Units this request consumes (e.g. GraphQL points or tokens)",
+          default: 1,
+          exclusiveMinimum: 0
         },
         increment: {
           type: "boolean",
@@ -264,17 +2120,430 @@ const tools = [
       },
       required: ["resource"]
     }
-  }
+  },
+  {
+    name: "rate_limit_acquire",
+    description: "Wait until a resource's rate limit has capacity, then consume it. Concurrent waiters are served first-come, first-served. Returns how long it waited, or a timeout result after max_wait_ms.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource identifier (e.g., 'api.github.com')"
+        },
+        max_wait_ms: {
+          type: "number",
+          description: "Longest time to wait for capacity",
+          default: 30000,
+          minimum: 0,
+          maximum: 300000
+        },
+        cost: {
+          type: "number",
+          description: "Units to acquire (e.g. GraphQL points or tokens)",
+          default: 1,
+          exclusiveMinimum: 0
+        },
+        ...rateLimitSchemaProperties
+      },
+      required: ["resource"]
+    }
+  },
+  {
+    name: "rate_limit_usage",
+    description: "Report current usage for a resource and every registered resource below it in the hierarchy (e.g. 'github.com' covers 'github.com/repos/org/x')",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Root of the subtree to report"
+        }
+      },
+      required: ["resource"]
+    }
+  },
+  {
+    name: "rate_limit_list",
+    description: "List every tracked rate limit resource with its current usage, reset time and waiting acquires",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prefix: {
+          type: "string",
+          description: "Only list resources starting with this prefix"
+        },
+        exhausted_only: {
+          type: "boolean",
+          description: "Only list resources with no capacity left right now",
+          default: false
+        },
+        offset: {
+          type: "number",
+          description: "Number of matching resources to skip",
+          default: 0,
+          minimum: 0
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of resources to return",
+          default: 50,
+          minimum: 1,
+          maximum: 500
+        }
+      }
+    }
+  },
+  {
+    name: "rate_limit_reset",
+    description: "Reset a resource's rate limit counters and lift any Retry-After block, optionally pre-seeding them with usage already spent elsewhere, or forget the resource entirely",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource to reset"
+        },
+        used: {
+          type: "number",
+          description: "Units to count as already consumed after the reset (e.g. from X-RateLimit-Remaining); capped at each limit's capacity",
+          default: 0,
+          minimum: 0
+        },
+        subtree: {
+          type: "boolean",
+          description: "Also reset every registered resource below this one",
+          default: false
+        },
+        delete: {
+          type: "boolean",
+          description: "Forget the resources and their registered limits instead of resetting them",
+          default: false
+        }
+      },
+      required: ["resource"]
+    }
+  },
+  {
+    name: "rate_limit_configure",
+    description: "Register or change a resource's rate limit and algorithm. Changing the limit starts its count over.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource: {
+          type: "string",
+          description: "Resource identifier (e.g., 'api.github.com')"
+        },
+        ...rateLimitSchemaProperties
+      },
+      required: ["resource"]
+    }
+  }
 ];
 
-// Rate limiting storage
-const rateLimits = new Map<string, { count: number; resetAt: number }>();
+// Rate limiting storage: each resource's registered limit and algorithm state.
+// Resources are hierarchical ("github.com/repos/org"), and a request also
+// counts against every registered ancestor.
+const rateLimits = new Map<string, RateLimiter>();
+
+// Refuse requests for a resource until `until`, e.g. after a server's Retry-After
+function blockRateLimit(resource: string, until: number): void {
+  let limiter = rateLimits.get(resource);
+  if (!limiter) {
+    // Placeholder with no limits until a check registers the real ones
+    limiter = createRateLimiter([], false);
+    rateLimits.set(resource, limiter);
+  }
+  limiter.blockedUntil = Math.max(limiter.blockedUntil ?? 0, until);
+}
+
+// The first check for a resource registers its limit; later ones share it
+function getRateLimiter(resource: string, args: any): RateLimiter {
+  let limiter = rateLimits.get(resource);
+  if (!limiter) {
+    limiter = createRateLimiter(rateLimitConfigsFromArgs(args));
+    rateLimits.set(resource, limiter);
+  } else if (!limiter.configured) {
+    configureRateLimiter(limiter, rateLimitConfigsFromArgs(args));
+  }
+  return limiter;
+}
+
+// The resource's own limiter plus those of registered or blocked ancestors
+function rateLimitScopes(resource: string, limiter: RateLimiter): RateLimitScope[] {
+  const scopes: RateLimitScope[] = [{ resource, limiter }];
+  for (const ancestor of rateLimitAncestors(resource)) {
+    const ancestorLimiter = rateLimits.get(ancestor);
+    if (ancestorLimiter) {
+      scopes.push({ resource: ancestor, limiter: ancestorLimiter });
+    }
+  }
+  return scopes;
+}
+
+// rate_limit_acquire callers waiting for capacity, in arrival order per resource
+interface RateLimitWaiter {
+  cost: number;
+  resolve: (decision: RateLimitDecision | undefined) => void;
+  deadline: number;
+  // Cancels the waiter's timeout once it is granted
+  timeout: AbortController;
+  // Detaches the waiter from the caller's abort signal once it settles
+  detach?: () => void;
+  settled: boolean;
+}
+
+const rateLimitWaiters = new Map<string, RateLimitWaiter[]>();
+const drainingRateLimits = new Set<string>();
+
+function settleWaiter(waiter: RateLimitWaiter, decision: RateLimitDecision | undefined): void {
+  if (waiter.settled) return;
+  waiter.settled = true;
+  waiter.timeout.abort();
+  waiter.detach?.();
+  waiter.resolve(decision);
+}
+
+// Grant capacity to waiters strictly in order, sleeping until the head can go
+async function drainRateLimitWaiters(resource: string): Promise<void> {
+  if (drainingRateLimits.has(resource)) return;
+  drainingRateLimits.add(resource);
+
+  try {
+    let queue: RateLimitWaiter[] | undefined;
+    while ((queue = rateLimitWaiters.get(resource)) && queue.length > 0) {
+      const head = queue[0];
+      if (head.settled) {
+        queue.shift();
+        continue;
+      }
+
+      const limiter = rateLimits.get(resource);
+      if (!limiter) {
+        queue.forEach(waiter => settleWaiter(waiter, undefined));
+        break;
+      }
+
+      const decision = checkRateLimit(rateLimitScopes(resource, limiter), head.cost);
+      if (decision.allowed) {
+        queue.shift();
+        settleWaiter(head, decision);
+        continue;
+      }
+
+      await setTimeout(Math.max(1, Math.min(decision.retryAfterMs, head.deadline - Date.now())));
+    }
+  } finally {
+    drainingRateLimits.delete(resource);
+    if (rateLimitWaiters.get(resource)?.length === 0) {
+      rateLimitWaiters.delete(resource);
+    }
+  }
+}
+
+// Resolves with the granted decision, or undefined if maxWaitMs passes or the signal aborts first
+function acquireRateLimit(
+  resource: string,
+  limiter: RateLimiter,
+  cost: number,
+  maxWaitMs: number,
+  signal?: AbortSignal
+): Promise<RateLimitDecision | undefined> {
+  const queue = rateLimitWaiters.get(resource) ?? [];
+
+  // Only skip the queue when nobody is already waiting
+  if (queue.length === 0) {
+    const decision = checkRateLimit(rateLimitScopes(resource, limiter), cost);
+    if (decision.allowed || maxWaitMs <= 0) {
+      return Promise.resolve(decision.allowed ? decision : undefined);
+    }
+  }
+
+  return new Promise(resolve => {
+    const waiter: RateLimitWaiter = {
+      cost,
+      resolve,
+      deadline: Date.now() + maxWaitMs,
+      timeout: new AbortController(),
+      settled: false
+    };
+    setTimeout(maxWaitMs, undefined, { signal: waiter.timeout.signal })
+      .then(() => settleWaiter(waiter, undefined), () => {});
+    if (signal) {
+      const onAbort = () => settleWaiter(waiter, undefined);
+      signal.addEventListener("abort", onAbort, { once: true });
+      waiter.detach = () => signal.removeEventListener("abort", onAbort);
+      if (signal.aborted) {
+        onAbort();
+      }
+    }
+
+    queue.push(waiter);
+    rateLimitWaiters.set(resource, queue);
+    drainRateLimitWaiters(resource);
+  });
+}
+
+function describeRateLimit(resource: string, decision: RateLimitDecision) {
+  const now = Date.now();
+  return {
+    allowed: decision.allowed,
+    resource,
+    algorithm: decision.algorithm,
+    cost: decision.cost,
+    current_count: decision.used,
+    max_requests: decision.limit,
+    remaining: decision.remaining,
+    reset_in_seconds: Math.ceil(decision.resetMs / 1000),
+    reset_at: new Date(now + decision.resetMs).toISOString(),
+    retry_after_ms: decision.retryAfterMs,
+    binding_limit: decision.name,
+    binding_resource: decision.resource,
+    ...(decision.blocked && { blocked_until: new Date(decision.blockedUntil!).toISOString() }),
+    // Per-limit detail only adds information when limits are stacked
+    ...(decision.limits.length > 1 && {
+      limits: decision.limits.map(result => ({
+        resource: result.resource,
+        name: result.name,
+        algorithm: result.algorithm,
+        allowed: result.allowed,
+        current_count: result.used,
+        max_requests: result.limit,
+        remaining: result.remaining,
+        retry_after_ms: result.retryAfterMs
+      }))
+    })
+  };
+}
+
+// Current usage of one resource's own limits, ignoring its ancestors
+function describeRateLimitUsage(resource: string, limiter: RateLimiter) {
+  const waiting = (rateLimitWaiters.get(resource) ?? []).filter(waiter => !waiter.settled).length;
+
+  // Placeholders only carry a Retry-After block
+  if (limiter.limits.length === 0) {
+    return {
+      resource,
+      configured: false,
+      exhausted: false,
+      waiting,
+      ...(limiter.blockedUntil! > Date.now() && { blocked_until: new Date(limiter.blockedUntil!).toISOString() })
+    };
+  }
+
+  const { allowed, cost, binding_resource, ...details } = describeRateLimit(
+    resource,
+    checkRateLimit([{ resource, limiter }], 1, false)
+  );
+  return { ...details, configured: true, exhausted: !allowed, waiting };
+}
+
+// Namespaces end at the first ":" of a cache key, so they cannot contain one
+function validateCacheNamespace(namespace: string): void {
+  if (typeof namespace !== "string" || namespace.includes(":")) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cache namespace ${JSON.stringify(namespace)}: namespaces cannot contain ":"`);
+  }
+}
 
 // Helper to generate cache key
 function getCacheKey(key: string, namespace: string = "default"): string {
+  validateCacheNamespace(namespace);
   return `${namespace}:${key}`;
 }
 
+// Inverse of getCacheKey (getCacheKey rejects namespaces containing ":")
+function parseCacheKey(cacheKey: string): { namespace: string; key: string } {
+  const separator = cacheKey.indexOf(":");
+  return {
+    namespace: cacheKey.slice(0, separator),
+    key: cacheKey.slice(separator + 1)
+  };
+}
+
+// Shared by the single-key and multi-key cache tools
+function readCacheEntry(key: string, namespace: string) {
+  const cacheKey = getCacheKey(key, namespace);
+
+  const entry = cache.get(cacheKey);
+  if (!entry) {
+    countCacheEvent(namespace, "misses");
+    return { found: false, key, namespace };
+  }
+
+  // Check if expired
+  const now = Date.now();
+  if (entry.expiresAt <= now) {
+    cacheDelete(cacheKey);
+    countCacheEvent(namespace, "misses");
+    countCacheEvent(namespace, "expirations");
+    return { found: false, key, namespace, reason: "expired" };
+  }
+
+  // Stale values are still served; only fresh ones get their sliding TTL reset
+  const stale = entry.staleAt <= now;
+  if (entry.sliding && !stale) {
+    cacheExtend(cacheKey, entry);
+  }
+
+  markEntryUsed(cacheKey, entry);
+  countCacheEvent(namespace, stale ? "stale_hits" : "hits");
+
+  return {
+    found: true,
+    key,
+    namespace,
+    value: entry.value,
+    version: entry.version,
+    tags: entry.tags,
+    stale,
+    ...(stale && {
+      hint: "Value is past its TTL but within its stale window. Use it, then refresh it with cache_put."
+    }),
+    expires_in_seconds: Math.floor((entry.expiresAt - now) / 1000)
+  };
+}
+
+interface CacheWriteOptions {
+  ttlSeconds: number;
+  staleSeconds?: number;
+  sliding?: boolean;
+  tags?: string[];
+}
+
+function writeCacheEntry(key: string, namespace: string, value: any, options: CacheWriteOptions) {
+  const { ttlSeconds, staleSeconds = 0, sliding = false, tags = [] } = options;
+  const cacheKey = getCacheKey(key, namespace);
+  const timing = cacheTiming(ttlSeconds, staleSeconds, sliding);
+  const { entry, evicted } = cacheSet(cacheKey, value, timing, tags);
+
+  return {
+    success: true,
+    key,
+    namespace,
+    ttl_seconds: ttlSeconds,
+    ...(staleSeconds > 0 && { stale_at: new Date(entry.staleAt).toISOString() }),
+    expires_at: new Date(entry.expiresAt).toISOString(),
+    sliding,
+    version: entry.version,
+    tags,
+    evicted
+  };
+}
+
+function deleteCacheEntry(key: string, namespace: string) {
+  const existed = cacheDelete(getCacheKey(key, namespace));
+  if (existed) {
+    countCacheEvent(namespace, "deletes");
+  }
+  return { success: true, key, namespace, existed };
+}
+
+// Convert a glob pattern (* and ?) to an anchored regular expression
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+}
+
 // Register list handler
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return { tools };
@@ -284,141 +2553,1356 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
 
-  try {
-    switch (name) {
-      case "retry_operation": {
+  try {
+    switch (name) {
+      case "retry_operation": {
+        const {
+          operation_id,
+          operation_type,
+          operation_data,
+          max_retries = 3,
+          should_execute = true,
+          dry_run = false,
+          outcome,
+          max_retry_after_ms = 300000,
+          update_rate_limit = false,
+          resource = operationResource(operation_type, operation_data)
+        } = args as any;
+        const backoff = backoffOptionsFromArgs(args, { jitter: false });
+
+        if (dry_run) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "dry_run",
+                max_attempts: max_retries,
+                ...planBackoff(max_retries - 1, backoff)
+              })
+            }]
+          };
+        }
+
+        // Get or create retry metadata
+        let metadata: RetryMetadata = retryMetadata.get(operation_id) || {
+          attempts: 0,
+          lastAttempt: 0,
+          maxRetries: max_retries,
+          success: false,
+          fatal: false,
+          history: []
+        };
+        // Outcome reports usually omit max_retries; keep the limit from execute_attempt
+        if (!outcome || (args as any).max_retries !== undefined) {
+          metadata.maxRetries = max_retries;
+        }
+
+        // Honor a server-requested wait (capped), optionally blocking the resource's rate limit too
+        const applyServerHint = (hintMs: number | undefined): number | undefined => {
+          if (hintMs === undefined) {
+            return undefined;
+          }
+          const waitMs = Math.min(hintMs, max_retry_after_ms);
+          metadata.retryAfterUntil = Date.now() + waitMs;
+          if (update_rate_limit && metadata.resource) {
+            blockRateLimit(metadata.resource, metadata.retryAfterUntil);
+          }
+          return waitMs;
+        };
+
+        // The caller is reporting how its last execute_attempt went
+        if (outcome) {
+          // Each execute_attempt gets exactly one outcome
+          if (!hasOpenAttempt(metadata)) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `No attempt in progress for operation ${operation_id}`
+            );
+          }
+
+          const errorClass = outcome.error_class
+            || (outcome.status_code !== undefined ? errorClassFromStatus(outcome.status_code) : "unknown");
+          const retryable = outcome.retryable ?? isRetryableErrorClass(errorClass);
+
+          // Only transient failures say anything about the upstream's health
+          if (metadata.resource && (outcome.success || retryable)) {
+            recordCircuitResult(metadata.resource, outcome.success);
+          } else if (metadata.resource) {
+            releaseCircuitProbe(metadata.resource);
+          }
+
+          if (outcome.success) {
+            metadata.success = true;
+            finishRetryAttempt(metadata, { success: true });
+            retryMetadata.set(operation_id, metadata);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  operation_id,
+                  status: "succeeded",
+                  attempts: metadata.attempts
+                })
+              }]
+            };
+          }
+
+          metadata.lastError = outcome.error;
+          metadata.errorClass = errorClass;
+          metadata.fatal = !retryable;
+          const serverHintMs = applyServerHint(
+            outcome.retry_after_ms ?? retryAfterFromHeaders(outcome.response_headers)
+          );
+          finishRetryAttempt(metadata, { success: false, error: outcome.error, errorClass, serverHintMs });
+          retryMetadata.set(operation_id, metadata);
+
+          if (!retryable || metadata.attempts >= metadata.maxRetries) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  operation_id,
+                  status: retryable ? "max_retries_exceeded" : "failed",
+                  attempts: metadata.attempts,
+                  error: metadata.lastError,
+                  error_class: errorClass,
+                  retryable,
+                  message: retryable
+                    ? "Maximum retry attempts reached"
+                    : "Fatal error reported; operation will not be retried"
+                })
+              }]
+            };
+          }
+
+          const waitMs = requiredRetryDelay(metadata) - (Date.now() - metadata.lastAttempt);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "retry_scheduled",
+                attempts: metadata.attempts,
+                error_class: errorClass,
+                retryable,
+                wait_ms: Math.max(0, waitMs),
+                server_hint_ms: serverHintMs,
+                message: "Call retry_operation again after wait_ms to get the next attempt"
+              })
+            }]
+          };
+        }
+
+        if (!operation_type) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "operation_type is required unless reporting an outcome"
+          );
+        }
+
+        // Check if we should retry
+        if (metadata.success) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "already_succeeded",
+                attempts: metadata.attempts,
+                message: "Operation already completed successfully"
+              })
+            }]
+          };
+        }
+
+        if (metadata.fatal) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "failed",
+                attempts: metadata.attempts,
+                error: metadata.lastError,
+                error_class: metadata.errorClass,
+                message: "Operation failed with a fatal error and will not be retried"
+              })
+            }]
+          };
+        }
+
+        if (metadata.attempts >= max_retries) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "max_retries_exceeded",
+                attempts: metadata.attempts,
+                message: "Maximum retry attempts reached"
+              })
+            }]
+          };
+        }
+
+        // Enforce the planned backoff, honoring any reported retry-after
+        const timeSinceLastAttempt = Date.now() - metadata.lastAttempt;
+        const requiredDelay = requiredRetryDelay(metadata);
+        
+        if (metadata.attempts > 0 && timeSinceLastAttempt < requiredDelay) {
+          const waitTime = requiredDelay - timeSinceLastAttempt;
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "retry_delayed",
+                attempts: metadata.attempts,
+                wait_ms: waitTime,
+                message: `Retry delayed. Wait ${waitTime}ms before next attempt`
+              })
+            }]
+          };
+        }
+
+        // Don't hand out attempts against a resource whose circuit is open
+        metadata.resource = resource;
+        if (resource && !circuitAllows(getCircuitBreaker(resource), should_execute)) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "circuit_open",
+                attempts: metadata.attempts,
+                circuit: describeCircuit(resource, getCircuitBreaker(resource)),
+                message: `Circuit for ${resource} is open; not attempting the operation`
+              })
+            }]
+          };
+        }
+
+        // A retry (not a first attempt) must fit in the resource's retry budget
+        const budgetKey = retryBudgetKey(metadata);
+        if (metadata.attempts > 0 && !retryBudgetAllows(getRetryBudget(budgetKey))) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "retry_budget_exhausted",
+                attempts: metadata.attempts,
+                budget: describeRetryBudget(budgetKey, getRetryBudget(budgetKey)),
+                message: `Retry budget for ${budgetKey} is exhausted; try again later`
+              })
+            }]
+          };
+        }
+
+        if (!should_execute) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                status: "ready_to_execute",
+                attempts: metadata.attempts,
+                next_delay_ms: requiredDelay,
+                operation_type,
+                operation_data
+              })
+            }]
+          };
+        }
+
+        // Run the whole backoff loop server-side when we know how to execute the operation
+        const executor = Object.hasOwn(retryExecutors, operation_type) ? retryExecutors[operation_type] : undefined;
+        if (executor) {
+          const history: any[] = [];
+
+          while (true) {
+            beginRetryAttempt(operation_id, metadata, backoff);
+
+            try {
+              const result = await executor(operation_data);
+              metadata.success = true;
+              finishRetryAttempt(metadata, { success: true });
+              if (resource) {
+                recordCircuitResult(resource, true);
+              }
+              history.push({
+                attempt: metadata.attempts,
+                success: true,
+                duration_ms: Date.now() - metadata.lastAttempt
+              });
+
+              return {
+                content: [{
+                  type: "text",
+                  text: JSON.stringify({
+                    operation_id,
+                    status: "succeeded",
+                    attempts: metadata.attempts,
+                    result,
+                    history
+                  })
+                }]
+              };
+            } catch (error) {
+              const retryable = error instanceof OperationError && error.retryable;
+              const serverHintMs = error instanceof OperationError
+                ? applyServerHint(retryAfterFromHeaders(error.details?.headers))
+                : undefined;
+              const attempt: any = {
+                attempt: metadata.attempts,
+                success: false,
+                duration_ms: Date.now() - metadata.lastAttempt,
+                error: (error as Error).message,
+                retryable
+              };
+              history.push(attempt);
+              metadata.lastError = attempt.error;
+              metadata.fatal = !retryable;
+              finishRetryAttempt(metadata, { success: false, error: attempt.error, serverHintMs });
+              if (resource && retryable) {
+                recordCircuitResult(resource, false);
+              } else if (resource) {
+                releaseCircuitProbe(resource);
+              }
+
+              if (!retryable || metadata.attempts >= max_retries) {
+                return {
+                  content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                      operation_id,
+                      status: retryable ? "max_retries_exceeded" : "failed",
+                      attempts: metadata.attempts,
+                      error: attempt.error,
+                      details: error instanceof OperationError ? error.details : undefined,
+                      history
+                    })
+                  }]
+                };
+              }
+
+              attempt.next_delay_ms = Math.max(metadata.nextDelayMs ?? 0, serverHintMs ?? 0);
+              if (serverHintMs !== undefined) {
+                attempt.server_hint_ms = serverHintMs;
+              }
+              await setTimeout(attempt.next_delay_ms);
+
+              if (!retryBudgetAllows(getRetryBudget(budgetKey))) {
+                return {
+                  content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                      operation_id,
+                      status: "retry_budget_exhausted",
+                      attempts: metadata.attempts,
+                      error: attempt.error,
+                      budget: describeRetryBudget(budgetKey, getRetryBudget(budgetKey)),
+                      history
+                    })
+                  }]
+                };
+              }
+
+              if (resource && !circuitAllows(getCircuitBreaker(resource), true)) {
+                return {
+                  content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                      operation_id,
+                      status: "circuit_open",
+                      attempts: metadata.attempts,
+                      error: attempt.error,
+                      circuit: describeCircuit(resource, getCircuitBreaker(resource)),
+                      history
+                    })
+                  }]
+                };
+              }
+            }
+          }
+        }
+
+        // Update metadata for this attempt
+        beginRetryAttempt(operation_id, metadata, backoff);
+
+        // Here we return instructions for what should be retried
+        // In practice, the calling system would execute the actual operation
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              operation_id,
+              status: "execute_attempt",
+              attempt_number: metadata.attempts,
+              operation_type,
+              operation_data,
+              instructions: "Execute the operation, then call retry_operation with the same operation_id and an outcome: { success: true } or { success: false, error, error_class, status_code, response_headers, retry_after_ms }"
+            })
+          }]
+        };
+      }
+
+      case "retry_list": {
+        const { status, prefix, offset = 0, limit = 50 } = args as any;
+
+        const matches: any[] = [];
+        for (const [operationId, metadata] of retryMetadata.entries()) {
+          if (prefix && !operationId.startsWith(prefix)) continue;
+          const summary = describeRetryOperation(operationId, metadata);
+          if (status !== undefined && summary.status !== status) continue;
+          matches.push(summary);
+        }
+
+        const page = matches.slice(offset, offset + limit);
+        const nextOffset = offset + page.length;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: matches.length,
+              offset,
+              operations: page,
+              next_offset: nextOffset < matches.length ? nextOffset : null
+            })
+          }]
+        };
+      }
+
+      case "retry_get": {
+        const { operation_id } = args as any;
+
+        const metadata = retryMetadata.get(operation_id);
+        if (!metadata) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ found: false, operation_id })
+            }]
+          };
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              found: true,
+              ...describeRetryOperation(operation_id, metadata),
+              history: metadata.history.map(record => ({
+                attempt: record.attempt,
+                started_at: new Date(record.startedAt).toISOString(),
+                delay_ms: record.delayMs,
+                finished_at: record.finishedAt ? new Date(record.finishedAt).toISOString() : undefined,
+                success: record.success,
+                error: record.error,
+                error_class: record.errorClass,
+                server_hint_ms: record.serverHintMs
+              }))
+            })
+          }]
+        };
+      }
+
+      case "retry_reset": {
+        const { operation_id, delete: remove = false } = args as any;
+
+        const metadata = retryMetadata.get(operation_id);
+        if (!metadata) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ success: false, operation_id, message: "Operation is not tracked" })
+            }]
+          };
+        }
+
+        const previous = describeRetryOperation(operation_id, metadata);
+        if (remove) {
+          retryMetadata.delete(operation_id);
+        } else {
+          // Keep the resource so circuit and budget tracking carry over;
+          // lastAttempt is refreshed so cleanup doesn't drop the entry straight away
+          retryMetadata.set(operation_id, {
+            attempts: 0,
+            lastAttempt: Date.now(),
+            maxRetries: metadata.maxRetries,
+            success: false,
+            fatal: false,
+            resource: metadata.resource,
+            history: []
+          });
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              operation_id,
+              deleted: remove,
+              previous_status: previous.status,
+              previous_attempts: previous.attempts
+            })
+          }]
+        };
+      }
+
+      case "circuit_breaker_record": {
+        const { resource, success } = args as any;
+        const breaker = recordCircuitResult(resource, success);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(describeCircuit(resource, breaker))
+          }]
+        };
+      }
+
+      case "circuit_breaker_check": {
+        const { resource } = args as any;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(describeCircuit(resource, getCircuitBreaker(resource)))
+          }]
+        };
+      }
+
+      case "circuit_breaker_configure": {
+        const {
+          resource,
+          failure_threshold,
+          window_seconds,
+          cooldown_seconds,
+          reset = false
+        } = args as any;
+
+        const breaker = getCircuitBreaker(resource);
+        if (failure_threshold !== undefined) breaker.failureThreshold = failure_threshold;
+        if (window_seconds !== undefined) breaker.windowMs = window_seconds * 1000;
+        if (cooldown_seconds !== undefined) breaker.cooldownMs = cooldown_seconds * 1000;
+        if (reset) {
+          breaker.state = "closed";
+          breaker.failures = [];
+          breaker.probeStartedAt = undefined;
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              ...describeCircuit(resource, breaker)
+            })
+          }]
+        };
+      }
+
+      case "retry_budget_status": {
+        const { resource } = args as any;
+
+        const budgets = resource !== undefined
+          ? [describeRetryBudget(resource, getRetryBudget(resource))]
+          : [...retryBudgets.entries()].map(([key, budget]) => describeRetryBudget(key, budget));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ budgets })
+          }]
+        };
+      }
+
+      case "retry_budget_configure": {
+        const { resource, ratio, window_seconds, min_retries } = args as any;
+
+        const budget = getRetryBudget(resource);
+        if (ratio !== undefined) budget.ratio = ratio;
+        if (window_seconds !== undefined) budget.windowMs = window_seconds * 1000;
+        if (min_retries !== undefined) budget.minRetries = min_retries;
+        budget.configured = true;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              ...describeRetryBudget(resource, budget)
+            })
+          }]
+        };
+      }
+
+      case "cache_get": {
+        const { key, namespace = "default" } = args as any;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(readCacheEntry(key, namespace))
+          }]
+        };
+      }
+
+      case "cache_put": {
+        const {
+          key,
+          value,
+          ttl_seconds = 300,
+          stale_ttl_seconds = 0,
+          sliding = false,
+          namespace = "default",
+          tags = []
+        } = args as any;
+        const result = writeCacheEntry(key, namespace, value, {
+          ttlSeconds: ttl_seconds,
+          staleSeconds: stale_ttl_seconds,
+          sliding,
+          tags
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...result,
+              cache_size: cache.size,
+              cache_bytes: cacheUsage.bytes
+            })
+          }]
+        };
+      }
+
+      case "cache_touch": {
+        const { key, ttl_seconds, namespace = "default" } = args as any;
+        const cacheKey = getCacheKey(key, namespace);
+
+        const entry = getLiveEntry(cacheKey);
+        if (!entry) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                found: false,
+                key,
+                namespace
+              })
+            }]
+          };
+        }
+
+        cacheExtend(cacheKey, entry, ttl_seconds !== undefined ? ttl_seconds * 1000 : entry.ttlMs);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              found: true,
+              key,
+              namespace,
+              ttl_seconds: entry.ttlMs / 1000,
+              stale_at: new Date(entry.staleAt).toISOString(),
+              expires_at: new Date(entry.expiresAt).toISOString()
+            })
+          }]
+        };
+      }
+
+      case "cache_delete": {
+        const { key, namespace = "default" } = args as any;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(deleteCacheEntry(key, namespace))
+          }]
+        };
+      }
+
+      case "cache_invalidate": {
+        const { tags, pattern, regex, namespace } = args as any;
+
+        if (!tags?.length && !pattern && !regex) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "At least one of tags, pattern or regex is required"
+          );
+        }
+
+        let keyMatcher: RegExp | undefined;
+        try {
+          keyMatcher = regex ? new RegExp(regex) : undefined;
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid regex: ${(error as Error).message}`);
+        }
+        const globMatcher = pattern ? globToRegExp(pattern) : undefined;
+
+        // Start from the tag index when tags are given, otherwise scan everything
+        let candidates: Iterable<string> = cache.keys();
+        if (tags?.length) {
+          const tagged = new Set<string>();
+          for (const tag of tags) {
+            for (const cacheKey of tagIndex.get(tag) || []) {
+              tagged.add(cacheKey);
+            }
+          }
+          candidates = tagged;
+        }
+
+        const invalidated: { key: string; namespace: string }[] = [];
+        for (const cacheKey of [...candidates]) {
+          const parsed = parseCacheKey(cacheKey);
+          if (namespace !== undefined && parsed.namespace !== namespace) continue;
+          if (globMatcher && !globMatcher.test(parsed.key)) continue;
+          if (keyMatcher && !keyMatcher.test(parsed.key)) continue;
+
+          cacheDelete(cacheKey);
+          countCacheEvent(parsed.namespace, "deletes");
+          invalidated.push(parsed);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              invalidated_entries: invalidated.length,
+              invalidated
+            })
+          }]
+        };
+      }
+
+      case "cache_mget": {
+        const { keys, namespace = "default" } = args as any;
+
+        const results = keys.map((item: any) =>
+          readCacheEntry(item.key, item.namespace ?? namespace)
+        );
+        const missing = results.filter((r: any) => !r.found);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: results.length,
+              found: results.length - missing.length,
+              missing: missing.map((r: any) => ({ key: r.key, namespace: r.namespace })),
+              results
+            })
+          }]
+        };
+      }
+
+      case "cache_mput": {
+        const { entries, ttl_seconds = 300, namespace = "default" } = args as any;
+
+        const results = entries.map((item: any) => {
+          const itemNamespace = item.namespace ?? namespace;
+          try {
+            return writeCacheEntry(item.key, itemNamespace, item.value, {
+              ttlSeconds: item.ttl_seconds ?? ttl_seconds,
+              tags: item.tags
+            });
+          } catch (error) {
+            return {
+              success: false,
+              key: item.key,
+              namespace: itemNamespace,
+              error: (error as Error).message
+            };
+          }
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: results.length,
+              stored: results.filter((r: any) => r.success).length,
+              cache_size: cache.size,
+              cache_bytes: cacheUsage.bytes,
+              results
+            })
+          }]
+        };
+      }
+
+      case "cache_mdelete": {
+        const { keys, namespace = "default" } = args as any;
+
+        // Validate every namespace before deleting anything
+        keys.forEach((item: any) => validateCacheNamespace(item.namespace ?? namespace));
+        const results = keys.map((item: any) =>
+          deleteCacheEntry(item.key, item.namespace ?? namespace)
+        );
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: results.length,
+              deleted: results.filter((r: any) => r.existed).length,
+              results
+            })
+          }]
+        };
+      }
+
+      case "cache_clear": {
+        const { namespace } = args as any;
+        
+        if (namespace) {
+          let cleared = 0;
+          const prefix = `${namespace}:`;
+          for (const key of cache.keys()) {
+            if (key.startsWith(prefix)) {
+              cacheDelete(key);
+              cleared++;
+            }
+          }
+          
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                namespace,
+                cleared_entries: cleared
+              })
+            }]
+          };
+        } else {
+          const size = cache.size;
+          cacheClear();
+          
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                cleared_entries: size
+              })
+            }]
+          };
+        }
+      }
+
+      case "cache_cas": {
+        const {
+          key,
+          value,
+          expected_version,
+          expected_value,
+          ttl_seconds = 300,
+          namespace = "default"
+        } = args as any;
+
+        if (expected_version === undefined && expected_value === undefined) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Either expected_version or expected_value is required"
+          );
+        }
+
+        const cacheKey = getCacheKey(key, namespace);
+        const current = getLiveEntry(cacheKey);
+        const currentVersion = current ? current.version : 0;
+
+        const versionMatches = expected_version === undefined || expected_version === currentVersion;
+        const valueMatches = expected_value === undefined ||
+          (current !== undefined && canonicalJson(current.value) === canonicalJson(expected_value));
+
+        if (!versionMatches || !valueMatches) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                key,
+                namespace,
+                reason: "mismatch",
+                current_version: currentVersion,
+                current_value: current?.value
+              })
+            }]
+          };
+        }
+
+        const { entry, evicted } = cacheSet(cacheKey, value, cacheTiming(ttl_seconds), current?.tags);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              key,
+              namespace,
+              version: entry.version,
+              expires_at: new Date(entry.expiresAt).toISOString(),
+              evicted
+            })
+          }]
+        };
+      }
+
+      case "cache_incr": {
+        const {
+          key,
+          delta = 1,
+          initial_value = 0,
+          ttl_seconds,
+          namespace = "default"
+        } = args as any;
+
+        for (const [name, number] of Object.entries({ delta, initial_value })) {
+          if (typeof number !== "number" || !Number.isFinite(number)) {
+            throw new McpError(ErrorCode.InvalidParams, `${name} must be a finite number`);
+          }
+        }
+
+        const cacheKey = getCacheKey(key, namespace);
+        const current = getLiveEntry(cacheKey);
+
+        if (current && typeof current.value !== "number") {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Cannot increment ${key}: current value is not a number`
+          );
+        }
+
+        const value = (current ? current.value : initial_value) + delta;
+        // Existing counters keep their expiry unless a new TTL is given
+        const timing: CacheTiming = current && ttl_seconds === undefined
+          ? {
+              expiresAt: current.expiresAt,
+              staleAt: current.staleAt,
+              ttlMs: current.ttlMs,
+              sliding: current.sliding
+            }
+          : cacheTiming(ttl_seconds ?? 300);
+        const { entry, evicted } = cacheSet(cacheKey, value, timing, current?.tags);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              key,
+              namespace,
+              value,
+              version: entry.version,
+              expires_at: new Date(entry.expiresAt).toISOString(),
+              evicted
+            })
+          }]
+        };
+      }
+
+      case "cache_put_if_absent": {
+        const { key, value, ttl_seconds = 300, namespace = "default" } = args as any;
+        const cacheKey = getCacheKey(key, namespace);
+
+        const current = getLiveEntry(cacheKey);
+        if (current) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                stored: false,
+                key,
+                namespace,
+                current_value: current.value,
+                current_version: current.version,
+                expires_in_seconds: Math.floor((current.expiresAt - Date.now()) / 1000)
+              })
+            }]
+          };
+        }
+
+        const { entry, evicted } = cacheSet(cacheKey, value, cacheTiming(ttl_seconds));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              stored: true,
+              key,
+              namespace,
+              version: entry.version,
+              expires_at: new Date(entry.expiresAt).toISOString(),
+              evicted
+            })
+          }]
+        };
+      }
+
+      case "cache_list": {
+        const {
+          namespace,
+          prefix,
+          pattern,
+          offset = 0,
+          limit = 50
+        } = args as any;
+
+        const matcher = pattern ? globToRegExp(pattern) : undefined;
+        const now = Date.now();
+        const matches: any[] = [];
+
+        for (const [cacheKey, entry] of cache.entries()) {
+          if (entry.expiresAt <= now) continue;
+
+          const parsed = parseCacheKey(cacheKey);
+          if (namespace !== undefined && parsed.namespace !== namespace) continue;
+          if (prefix && !parsed.key.startsWith(prefix)) continue;
+          if (matcher && !matcher.test(parsed.key)) continue;
+
+          matches.push({
+            key: parsed.key,
+            namespace: parsed.namespace,
+            expires_in_seconds: Math.floor((entry.expiresAt - now) / 1000),
+            stale: entry.staleAt <= now,
+            sliding: entry.sliding,
+            size_bytes: entry.size,
+            hits: entry.hits,
+            tags: entry.tags
+          });
+        }
+
+        const page = matches.slice(offset, offset + limit);
+        const nextOffset = offset + page.length;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: matches.length,
+              offset,
+              entries: page,
+              next_offset: nextOffset < matches.length ? nextOffset : null
+            })
+          }]
+        };
+      }
+
+      case "cache_stats": {
+        const { namespace, reset = false } = args as any;
+
+        const namespaces = new Set([...namespaceUsage.keys(), ...cacheCounters.keys()]);
+        const stats: Record<string, any> = {};
+
+        for (const ns of namespaces) {
+          if (namespace !== undefined && ns !== namespace) continue;
+
+          const usage = namespaceUsage.get(ns) || { entries: 0, bytes: 0 };
+          const counters = cacheCounters.get(ns);
+          const hits = counters ? counters.hits + counters.stale_hits : 0;
+          const lookups = counters ? hits + counters.misses : 0;
+          stats[ns] = {
+            entries: usage.entries,
+            bytes: usage.bytes,
+            ...counters,
+            hit_rate: lookups > 0 ? hits / lookups : null
+          };
+        }
+
+        if (reset) {
+          if (namespace !== undefined) {
+            cacheCounters.delete(namespace);
+          } else {
+            cacheCounters.clear();
+          }
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total_entries: cacheUsage.entries,
+              total_bytes: cacheUsage.bytes,
+              limits: {
+                max_entries: cacheLimits.maxEntries,
+                max_bytes: cacheLimits.maxBytes,
+                namespace_max_entries: cacheLimits.namespaceMaxEntries,
+                namespace_max_bytes: cacheLimits.namespaceMaxBytes,
+                eviction: cacheLimits.eviction
+              },
+              namespaces: stats
+            })
+          }]
+        };
+      }
+
+      case "batch_operation": {
         const {
-          operation_id,
-          operation_type,
-          operation_data,
-          max_retries = 3,
-          initial_delay_ms = 1000,
-          should_execute = true
+          operations,
+          concurrency = 5,
+          timeout_ms = 30000,
+          continue_on_error = true,
+          use_cache = false,
+          cache_ttl_seconds = 300,
+          result_mode = "full",
+          results_ttl_seconds = 3600,
+          detach = false,
+          retry,
+          rate_limit
         } = args as any;
+        const progressToken = request.params._meta?.progressToken;
+        const startedAt = Date.now();
 
-        // Get or create retry metadata
-        let metadata = retryMetadata.get(operation_id) || {
-          attempts: 0,
-          lastAttempt: 0,
-          success: false
+        // Reject the whole batch up front rather than half-running it
+        const unknownTypes = [...new Set<string>(operations.map((op: any) => op.type))]
+          .filter(type => !Object.hasOwn(batchHandlers, type));
+        if (unknownTypes.length > 0) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unknown operation type: ${unknownTypes.join(", ")}. Supported types: ${Object.keys(batchHandlers).join(", ")}`
+          );
+        }
+
+        validateBatchGraph(operations);
+
+        // Resolve every operation's policy up front so a bad one fails the call, not the op
+        const policies = new Map<string, BatchPolicy>();
+        for (const op of operations) {
+          const opRetry = retry || op.retry ? { ...retry, ...op.retry } : undefined;
+          const opRateLimit = rate_limit || op.rate_limit ? { ...rate_limit, ...op.rate_limit } : undefined;
+          policies.set(op.id, batchPolicyFromArgs(opRetry, opRateLimit));
+        }
+
+        const batchOptions: BatchOptions = {
+          concurrency,
+          timeoutMs: timeout_ms,
+          continueOnError: continue_on_error,
+          useCache: use_cache,
+          cacheTtlSeconds: cache_ttl_seconds,
+          policies
         };
 
-        // Check if we should retry
-        if (metadata.success) {
+        // Detached: run in the background and hand back a job to poll
+        if (detach) {
+          const job = startBatchJob(operations, batchOptions);
           return {
             content: [{
               type: "text",
               text: JSON.stringify({
-                operation_id,
-                status: "already_succeeded",
-                attempts: metadata.attempts,
-                message: "Operation already completed successfully"
+                ...describeBatchJob(job),
+                message: "Poll batch_job_status and batch_job_results with this job_id; stop it with batch_job_cancel"
               })
             }]
           };
         }
 
-        if (metadata.attempts >= max_retries) {
+        let completed = 0;
+        const results = await runBatch(operations, batchOptions, {
+          onResult: () => sendProgress(progressToken, ++completed, operations.length)
+        });
+
+        // Sort results to match input order
+        const sortedResults = operations.map((op: any) => 
+          results.find(r => r.id === op.id)
+        );
+
+        const summary = {
+          success: true,
+          total_operations: operations.length,
+          successful: results.filter(r => r.success).length,
+          failed: results.filter(r => !r.success && !r.skipped).length,
+          skipped: results.filter(r => r.skipped).length,
+          duration_ms: Date.now() - startedAt
+        };
+
+        if (result_mode === "summary") {
+          // Park the results in the cache and return only what failed
+          const batchId = randomUUID();
+          try {
+            writeCacheEntry(batchId, BATCH_RESULTS_NAMESPACE, sortedResults, { ttlSeconds: results_ttl_seconds });
+          } catch (error) {
+            // The operations have already run, so hand the results back rather than lose them
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  ...summary,
+                  batch_id: null,
+                  results_not_stored: (error as Error).message,
+                  results: sortedResults
+                })
+              }]
+            };
+          }
+
           return {
             content: [{
               type: "text",
               text: JSON.stringify({
-                operation_id,
-                status: "max_retries_exceeded",
-                attempts: metadata.attempts,
-                message: "Maximum retry attempts reached"
+                ...summary,
+                batch_id: batchId,
+                failures: sortedResults
+                  .filter((r: any) => r && !r.success)
+                  .slice(0, 10)
+                  .map((r: any) => ({ id: r.id, error: r.error })),
+                message: "Use batch_results with this batch_id to page through the results"
               })
             }]
           };
         }
 
-        // Calculate delay with exponential backoff
-        const timeSinceLastAttempt = Date.now() - metadata.lastAttempt;
-        const requiredDelay = initial_delay_ms * Math.pow(2, metadata.attempts);
-        
-        if (metadata.attempts > 0 && timeSinceLastAttempt < requiredDelay) {
-          const waitTime = requiredDelay - timeSinceLastAttempt;
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                operation_id,
-                status: "retry_delayed",
-                attempts: metadata.attempts,
-                wait_ms: waitTime,
-                message: `Retry delayed. Wait ${waitTime}ms before next attempt`
-              })
-            }]
-          };
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...summary,
+              results: sortedResults
+            })
+          }]
+        };
+      }
+
+      case "batch_job_status": {
+        const { job_id } = args as any;
+        const job = getBatchJob(job_id);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(describeBatchJob(job))
+          }]
+        };
+      }
+
+      case "batch_job_results": {
+        const { job_id, offset = 0, limit = 20 } = args as any;
+        const job = getBatchJob(job_id);
+
+        const page = job.results.slice(offset, offset + limit);
+        const nextOffset = offset + page.length;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              job_id,
+              status: job.status,
+              completed: job.results.length,
+              total: job.total,
+              offset,
+              results: page,
+              // Keep polling from here while the job runs, even if nothing new has finished
+              next_offset: nextOffset < job.results.length || job.finishedAt === undefined ? nextOffset : null
+            })
+          }]
+        };
+      }
+
+      case "batch_job_cancel": {
+        const { job_id } = args as any;
+        const job = getBatchJob(job_id);
+
+        const wasRunning = job.status === "running";
+        if (wasRunning) {
+          job.status = "cancelled";
+          job.controller.abort();
         }
 
-        if (!should_execute) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: wasRunning,
+              ...describeBatchJob(job),
+              ...(!wasRunning && { message: `Job already ${job.status}` })
+            })
+          }]
+        };
+      }
+
+      case "batch_results": {
+        const { batch_id, status = "all", offset = 0, limit = 20 } = args as any;
+
+        const entry = getLiveEntry(getCacheKey(batch_id, BATCH_RESULTS_NAMESPACE));
+        if (!entry) {
           return {
             content: [{
               type: "text",
               text: JSON.stringify({
-                operation_id,
-                status: "ready_to_execute",
-                attempts: metadata.attempts,
-                next_delay_ms: requiredDelay,
-                operation_type,
-                operation_data
+                found: false,
+                batch_id,
+                message: "No results stored for this batch_id; they may have expired or been evicted"
               })
             }]
           };
         }
 
-        // Update metadata for this attempt
-        metadata.attempts += 1;
-        metadata.lastAttempt = Date.now();
-        retryMetadata.set(operation_id, metadata);
+        // Operations skipped by continue_on_error: false have no result
+        const matches = (entry.value as any[]).filter(result => {
+          if (status === "succeeded") return result?.success === true;
+          if (status === "failed") return result?.success === false;
+          return true;
+        });
+        const page = matches.slice(offset, offset + limit);
+        const nextOffset = offset + page.length;
 
-        // Here we return instructions for what should be retried
-        // In practice, the calling system would execute the actual operation
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              operation_id,
-              status: "execute_attempt",
-              attempt_number: metadata.attempts,
-              operation_type,
-              operation_data,
-              instructions: "Execute the operation and call retry_operation again with the result"
+              found: true,
+              batch_id,
+              total: matches.length,
+              offset,
+              results: page,
+              next_offset: nextOffset < matches.length ? nextOffset : null
             })
           }]
         };
       }
 
-      case "cache_get": {
-        const { key, namespace = "default" } = args as any;
-        const cacheKey = getCacheKey(key, namespace);
-        
-        const entry = cache.get(cacheKey);
-        if (!entry) {
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({ 
-                found: false, 
-                key,
-                namespace
-              })
-            }]
-          };
-        }
+      case "rate_limit_check": {
+        const { resource, increment = true, cost = 1 } = args as any;
+        const scopes = rateLimitScopes(resource, getRateLimiter(resource, args));
+        validateRateLimitCost(scopes, cost);
+        const decision = checkRateLimit(scopes, cost, increment);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(describeRateLimit(resource, decision))
+          }]
+        };
+      }
+
+      case "rate_limit_acquire": {
+        const { resource, max_wait_ms = 30000, cost = 1 } = args as any;
+        const limiter = getRateLimiter(resource, args);
+        validateRateLimitCost(rateLimitScopes(resource, limiter), cost);
+
+        const startedAt = Date.now();
+        const decision = await acquireRateLimit(resource, limiter, cost, max_wait_ms);
+        const waitedMs = Date.now() - startedAt;
 
-        // Check if expired
-        if (entry.expiresAt <= Date.now()) {
-          cache.delete(cacheKey);
+        if (!decision) {
           return {
             content: [{
               type: "text",
-              text: JSON.stringify({ 
-                found: false, 
-                key,
-                namespace,
-                reason: "expired" 
+              text: JSON.stringify({
+                ...describeRateLimit(resource, checkRateLimit(rateLimitScopes(resource, limiter), cost, false)),
+                acquired: false,
+                status: "timeout",
+                waited_ms: waitedMs,
+                message: `No capacity for ${resource} within ${max_wait_ms}ms`
               })
             }]
           };
@@ -428,256 +3912,116 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [{
             type: "text",
             text: JSON.stringify({
-              found: true,
-              key,
-              namespace,
-              value: entry.value,
-              expires_in_seconds: Math.floor((entry.expiresAt - Date.now()) / 1000)
+              ...describeRateLimit(resource, decision),
+              acquired: true,
+              waited_ms: waitedMs
             })
           }]
         };
       }
 
-      case "cache_put": {
-        const { key, value, ttl_seconds = 300, namespace = "default" } = args as any;
-        const cacheKey = getCacheKey(key, namespace);
-        
-        const expiresAt = Date.now() + (ttl_seconds * 1000);
-        cache.set(cacheKey, { value, expiresAt });
+      case "rate_limit_usage": {
+        const { resource } = args as any;
+
+        const usage: any[] = [];
+        for (const [key, limiter] of rateLimits.entries()) {
+          if (!isRateLimitDescendant(key, resource)) continue;
+          usage.push(describeRateLimitUsage(key, limiter));
+        }
+        usage.sort((a, b) => a.resource.localeCompare(b.resource));
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              success: true,
-              key,
-              namespace,
-              ttl_seconds,
-              expires_at: new Date(expiresAt).toISOString(),
-              cache_size: cache.size
+              resource,
+              total: usage.length,
+              exhausted: usage.filter(entry => entry.exhausted).length,
+              resources: usage
             })
           }]
         };
       }
 
-      case "cache_delete": {
-        const { key, namespace = "default" } = args as any;
-        const cacheKey = getCacheKey(key, namespace);
-        
-        const existed = cache.delete(cacheKey);
-        
+      case "rate_limit_list": {
+        const { prefix, exhausted_only = false, offset = 0, limit = 50 } = args as any;
+
+        const matches: any[] = [];
+        for (const [key, limiter] of rateLimits.entries()) {
+          if (prefix && !key.startsWith(prefix)) continue;
+          const usage = describeRateLimitUsage(key, limiter);
+          if (exhausted_only && !usage.exhausted) continue;
+          matches.push(usage);
+        }
+        matches.sort((a, b) => a.resource.localeCompare(b.resource));
+
+        const page = matches.slice(offset, offset + limit);
+        const nextOffset = offset + page.length;
+
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              success: true,
-              key,
-              namespace,
-              existed
+              total: matches.length,
+              offset,
+              resources: page,
+              next_offset: nextOffset < matches.length ? nextOffset : null
             })
           }]
         };
       }
 
-      case "cache_clear": {
-        const { namespace } = args as any;
-        
-        if (namespace) {
-          let cleared = 0;
-          const prefix = `${namespace}:`;
-          for (const key of cache.keys()) {
-            if (key.startsWith(prefix)) {
-              cache.delete(key);
-              cleared++;
-            }
-          }
-          
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                namespace,
-                cleared_entries: cleared
-              })
-            }]
-          };
-        } else {
-          const size = cache.size;
-          cache.clear();
-          
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                cleared_entries: size
-              })
-            }]
-          };
-        }
-      }
+      case "rate_limit_reset": {
+        const { resource, used = 0, subtree = false, delete: remove = false } = args as any;
 
-      case "batch_operation": {
-        const {
-          operations,
-          concurrency = 5,
-          timeout_ms = 30000,
-          continue_on_error = true,
-          use_cache = false,
-          cache_ttl_seconds = 300
-        } = args as any;
+        const targets = [...rateLimits.keys()].filter(key =>
+          subtree ? isRateLimitDescendant(key, resource) : key === resource
+        );
 
-        const results: any[] = [];
-        const queue = [...operations];
-        const inProgress = new Map<string, Promise<any>>();
-        
-        // Process operations with controlled concurrency
-        while (queue.length > 0 || inProgress.size > 0) {
-          // Start new operations up to concurrency limit
-          while (queue.length > 0 && inProgress.size < concurrency) {
-            const op = queue.shift()!;
-            
-            // Check cache first if enabled
-            if (use_cache) {
-              const cacheKey = `batch:${op.type}:${JSON.stringify(op.data)}`;
-              const cached = cache.get(cacheKey);
-              if (cached && cached.expiresAt > Date.now()) {
-                results.push({
-                  id: op.id,
-                  success: true,
-                  cached: true,
-                  result: cached.value
-                });
-                continue;
-              }
-            }
-            
-            // Create operation promise
-            const promise = Promise.race([
-              // Simulate operation execution
-              (async () => {
-                // In real implementation, this would execute the actual operation
-                await setTimeout(Math.random() * 1000); // Simulate work
-                
-                const result = {
-                  id: op.id,
-                  type: op.type,
-                  data: op.data,
-                  processed_at: new Date().toISOString()
-                };
-                
-                // Cache result if enabled
-                if (use_cache) {
-                  const cacheKey = `batch:${op.type}:${JSON.stringify(op.data)}`;
-                  cache.set(cacheKey, {
-                    value: result,
-                    expiresAt: Date.now() + (cache_ttl_seconds * 1000)
-                  });
-                }
-                
-                return result;
-              })(),
-              // Timeout promise
-              setTimeout(timeout_ms).then(() => {
-                throw new Error(`Operation ${op.id} timed out`);
-              })
-            ]);
-            
-            inProgress.set(op.id, promise);
-            
-            // Handle completion
-            promise
-              .then(result => {
-                results.push({
-                  id: op.id,
-                  success: true,
-                  result
-                });
-              })
-              .catch(error => {
-                results.push({
-                  id: op.id,
-                  success: false,
-                  error: error.message
-                });
-                
-                if (!continue_on_error) {
-                  // Cancel remaining operations
-                  queue.length = 0;
-                }
-              })
-              .finally(() => {
-                inProgress.delete(op.id);
-              });
-          }
-          
-          // Wait for at least one operation to complete
-          if (inProgress.size > 0) {
-            await Promise.race(inProgress.values());
+        for (const key of targets) {
+          if (remove) {
+            // Waiting acquires time out once their drain loop finds the limiter gone
+            rateLimits.delete(key);
+          } else {
+            resetRateLimiter(rateLimits.get(key)!, used);
           }
         }
 
-        // Sort results to match input order
-        const sortedResults = operations.map((op: any) => 
-          results.find(r => r.id === op.id)
-        );
-
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              success: true,
-              total_operations: operations.length,
-              successful: results.filter(r => r.success).length,
-              failed: results.filter(r => !r.success).length,
-              results: sortedResults
-            }, null, 2)
+              success: targets.length > 0,
+              resource,
+              deleted: remove,
+              resources: remove
+                ? targets
+                : targets.map(key => describeRateLimitUsage(key, rateLimits.get(key)!)),
+              ...(targets.length === 0 && { message: "No matching rate limit resources" })
+            })
           }]
         };
       }
 
-      case "rate_limit_check": {
-        const {
-          resource,
-          max_requests = 60,
-          window_seconds = 60,
-          increment = true
-        } = args as any;
+      case "rate_limit_configure": {
+        const { resource } = args as any;
+        const configs = rateLimitConfigsFromArgs(args);
 
-        const now = Date.now();
-        const windowMs = window_seconds * 1000;
-        
-        let limit = rateLimits.get(resource);
-        
-        // Initialize or reset if window expired
-        if (!limit || limit.resetAt <= now) {
-          limit = {
-            count: 0,
-            resetAt: now + windowMs
-          };
-          rateLimits.set(resource, limit);
-        }
-        
-        const allowed = limit.count < max_requests;
-        const remaining = Math.max(0, max_requests - limit.count);
-        const resetIn = Math.ceil((limit.resetAt - now) / 1000);
-        
-        if (allowed && increment) {
-          limit.count++;
+        let limiter = rateLimits.get(resource);
+        if (limiter) {
+          configureRateLimiter(limiter, configs);
+        } else {
+          limiter = createRateLimiter(configs);
+          rateLimits.set(resource, limiter);
         }
-        
+        limiter.persistent = true;
+
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              allowed,
-              resource,
-              current_count: limit.count,
-              max_requests,
-              remaining,
-              reset_in_seconds: resetIn,
-              reset_at: new Date(limit.resetAt).toISOString()
+              success: true,
+              ...describeRateLimit(resource, checkRateLimit(rateLimitScopes(resource, limiter), 1, false))
             })
           }]
         };
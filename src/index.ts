@@ -8,6 +8,7 @@ import {
   ErrorCode
 } from "@modelcontextprotocol/sdk/types.js";
 import { setTimeout } from "node:timers/promises";
+import { backoffDelay, backoffOptionsFromArgs, backoffSchemaProperties, planBackoff } from "./backoff.js";
 
 // Cache storage with TTL support
 interface CacheEntry {
@@ -41,7 +42,7 @@ const server = new Server({
 const tools = [
   {
     name: "retry_with_backoff",
-    description: "Execute a tool with automatic retry and exponential backoff for failures",
+    description: "Execute a tool with automatic retry and configurable backoff (exponential by default) for failures",
     inputSchema: {
       type: "object",
       properties: {
@@ -67,14 +68,9 @@ const tools = [
           minimum: 100,
           maximum: 60000
         },
-        max_delay_ms: {
-          type: "number",
-          description: "Maximum delay between retries",
-          default: 30000
-        },
+        ...backoffSchemaProperties,
         jitter: {
-          type: "boolean",
-          description: "Add random jitter to retry delays",
+          ...backoffSchemaProperties.jitter,
           default: true
         }
       },
@@ -218,23 +214,33 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           tool_name,
           args: toolArgs,
           max_retries = 3,
-          initial_delay_ms = 1000,
-          max_delay_ms = 30000,
-          jitter = true
+          dry_run = false
         } = args as any;
+        const backoff = backoffOptionsFromArgs(args, { jitter: true });
+
+        if (dry_run) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                tool_name,
+                max_attempts: max_retries + 1,
+                ...planBackoff(max_retries, backoff)
+              }, null, 2)
+            }]
+          };
+        }
 
         let lastError: Error | null = null;
-        let delay = initial_delay_ms;
+        let delay: number | undefined;
 
         for (let attempt = 0; attempt <= max_retries; attempt++) {
           try {
             if (attempt > 0) {
-              // Add jitter if enabled
-              const jitterAmount = jitter ? Math.random() * 0.3 * delay : 0;
-              const actualDelay = delay + jitterAmount;
-              
-              console.error(`Retry attempt ${attempt} after ${actualDelay}ms delay`);
-              await setTimeout(actualDelay);
+              delay = backoffDelay(attempt, backoff, delay);
+
+              console.error(`Retry attempt ${attempt} after ${delay}ms delay`);
+              await setTimeout(delay);
             }
 
             // Execute the tool
@@ -253,9 +259,6 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           } catch (error) {
             lastError = error as Error;
             console.error(`Attempt ${attempt + 1} failed:`, error);
-            
-            // Calculate next delay with exponential backoff
-            delay = Math.min(delay * 2, max_delay_ms);
           }
         }
 
@@ -0,0 +1,160 @@
+import { OperationError } from "./operations.js";
+
+export const JSON_TRANSFORM_STEPS = [
+  "get",
+  "pick",
+  "omit",
+  "filter",
+  "map",
+  "sort",
+  "limit",
+  "unique",
+  "count",
+  "merge"
+] as const;
+
+export interface JsonTransformStep {
+  op: typeof JSON_TRANSFORM_STEPS[number];
+  // Dot-separated path into the value, e.g. "items.0.name"
+  path?: string;
+  fields?: string[];
+  equals?: any;
+  order?: "asc" | "desc";
+  count?: number;
+  offset?: number;
+  value?: Record<string, any>;
+}
+
+export interface JsonTransformData {
+  input: any;
+  steps: JsonTransformStep[];
+}
+
+export function getPath(value: any, path: string | undefined): any {
+  if (!path) {
+    return value;
+  }
+  let current = value;
+  for (const segment of path.split(".")) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values always
+ * serialize to the same string regardless of key order.
+ */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    if (typeof value.toJSON === "function") {
+      return canonicalJson(value.toJSON());
+    }
+    const fields = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(",")}}`;
+  }
+  // undefined becomes null, as it does inside arrays
+  return JSON.stringify(value) ?? "null";
+}
+
+function requireArray(value: any, step: JsonTransformStep): any[] {
+  if (!Array.isArray(value)) {
+    throw new OperationError(`json_transform step ${step.op} expects an array`, false);
+  }
+  return value;
+}
+
+// Apply `fn` to an object, or to each element of an array of objects
+function eachObject(value: any, fn: (object: Record<string, any>) => any): any {
+  return Array.isArray(value) ? value.map(fn) : fn(value ?? {});
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  return a < b ? -1 : 1;
+}
+
+function applyStep(value: any, step: JsonTransformStep): any {
+  switch (step.op) {
+    case "get":
+      return getPath(value, step.path);
+
+    case "pick":
+      return eachObject(value, object =>
+        Object.fromEntries((step.fields ?? []).filter(field => field in object).map(field => [field, object[field]]))
+      );
+
+    case "omit":
+      return eachObject(value, object =>
+        Object.fromEntries(Object.entries(object).filter(([field]) => !(step.fields ?? []).includes(field)))
+      );
+
+    case "filter":
+      // Without `equals`, keep elements where the path is truthy
+      return requireArray(value, step).filter(item => {
+        const field = getPath(item, step.path);
+        return "equals" in step ? JSON.stringify(field) === JSON.stringify(step.equals) : Boolean(field);
+      });
+
+    case "map":
+      return requireArray(value, step).map(item => getPath(item, step.path));
+
+    case "sort": {
+      const direction = step.order === "desc" ? -1 : 1;
+      return [...requireArray(value, step)].sort((a, b) =>
+        direction * compare(getPath(a, step.path), getPath(b, step.path))
+      );
+    }
+
+    case "limit": {
+      const offset = step.offset ?? 0;
+      return requireArray(value, step).slice(offset, offset + (step.count ?? Infinity));
+    }
+
+    case "unique": {
+      const seen = new Set<string>();
+      return requireArray(value, step).filter(item => {
+        const key = JSON.stringify(getPath(item, step.path));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    case "count":
+      return requireArray(value, step).length;
+
+    case "merge":
+      return eachObject(value, object => ({ ...object, ...step.value }));
+
+    default:
+      throw new OperationError(
+        `Unknown json_transform step: ${(step as any).op}. Expected one of ${JSON_TRANSFORM_STEPS.join(", ")}`,
+        false
+      );
+  }
+}
+
+/**
+ * Run a pipeline of declarative steps over a JSON value.
+ *
+ * Steps are data only, so batches can reshape results without running code.
+ */
+export function applyJsonTransform(data: JsonTransformData): any {
+  const { input, steps = [] } = data;
+  if (!Array.isArray(steps)) {
+    throw new OperationError("json_transform steps must be an array", false);
+  }
+  return steps.reduce(applyStep, input);
+}
@@ -0,0 +1,167 @@
+import { readFile, stat, writeFile } from "node:fs/promises";
+
+/**
+ * Error raised by an operation executor.
+ *
+ * `retryable` separates transient failures (timeouts, 503s, EBUSY) from ones
+ * that will fail the same way on every attempt.
+ */
+export class OperationError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = "OperationError";
+  }
+}
+
+// Status codes worth retrying when the caller doesn't supply a list
+export const DEFAULT_RETRYABLE_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+export interface HttpRequestData {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: any;
+  retry_on_status?: number[];
+  timeout_ms?: number;
+}
+
+export async function executeHttpRequest(data: HttpRequestData, signal?: AbortSignal): Promise<any> {
+  const {
+    url,
+    method = "GET",
+    headers = {},
+    body,
+    retry_on_status = DEFAULT_RETRYABLE_STATUS_CODES,
+    timeout_ms = 30000
+  } = data;
+
+  if (!url) {
+    throw new OperationError("http_request requires a url", false);
+  }
+
+  // Objects are sent as JSON; strings are sent as-is
+  const requestHeaders = { ...headers };
+  let requestBody: string | undefined;
+  if (body !== undefined) {
+    if (typeof body === "string") {
+      requestBody = body;
+    } else {
+      requestBody = JSON.stringify(body);
+      requestHeaders["content-type"] ??= "application/json";
+    }
+  }
+
+  // Abort on either the per-request timeout or the caller's signal
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout_ms);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: requestHeaders,
+      body: requestBody,
+      signal: controller.signal
+    });
+    text = await response.text();
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new OperationError("Request aborted", false);
+    }
+    // Network failures and timeouts are transient by nature
+    throw new OperationError(`Request failed: ${(error as Error).message}`, true);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  let responseBody: any = text;
+  if (contentType.includes("json")) {
+    try {
+      responseBody = JSON.parse(text);
+    } catch {
+      // Leave malformed JSON as text
+    }
+  }
+
+  const result = {
+    status: response.status,
+    status_text: response.statusText,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: responseBody
+  };
+
+  if (!response.ok) {
+    throw new OperationError(
+      `HTTP ${response.status} ${response.statusText}`,
+      retry_on_status.includes(response.status),
+      result
+    );
+  }
+
+  return result;
+}
+
+// errno codes that indicate the file was temporarily unavailable
+const RETRYABLE_FILE_ERRORS = ["EBUSY", "EAGAIN"];
+
+export interface FileOperationData {
+  action: "read" | "write" | "stat";
+  path: string;
+  content?: string;
+  encoding?: BufferEncoding;
+}
+
+export async function executeFileOperation(data: FileOperationData): Promise<any> {
+  const { action, path, content, encoding = "utf8" } = data;
+
+  if (!path) {
+    throw new OperationError("file_operation requires a path", false);
+  }
+
+  try {
+    switch (action) {
+      case "read":
+        return { path, content: await readFile(path, { encoding }) };
+
+      case "write":
+        if (content === undefined) {
+          throw new OperationError("file_operation write requires content", false);
+        }
+        await writeFile(path, content, { encoding });
+        return { path, bytes_written: Buffer.byteLength(content, encoding) };
+
+      case "stat": {
+        const stats = await stat(path);
+        return {
+          path,
+          size: stats.size,
+          is_file: stats.isFile(),
+          is_directory: stats.isDirectory(),
+          modified_at: stats.mtime.toISOString()
+        };
+      }
+
+      default:
+        throw new OperationError(`Unknown file_operation action: ${action}`, false);
+    }
+  } catch (error) {
+    if (error instanceof OperationError) {
+      throw error;
+    }
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new OperationError(
+      (error as Error).message,
+      code !== undefined && RETRYABLE_FILE_ERRORS.includes(code),
+      { code }
+    );
+  }
+}
@@ -0,0 +1,540 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+export const RATE_LIMIT_ALGORITHMS = [
+  "fixed_window",
+  "sliding_log",
+  "sliding_window",
+  "token_bucket",
+  "gcra"
+] as const;
+
+export type RateLimitAlgorithm = typeof RATE_LIMIT_ALGORITHMS[number];
+
+export interface RateLimitConfig {
+  // Identifies the limit in responses when a resource has several
+  name: string;
+  algorithm: RateLimitAlgorithm;
+  maxRequests: number;
+  windowMs: number;
+  // Requests that may be made at once (token_bucket capacity, gcra burst)
+  burst: number;
+  // token_bucket only: tokens added per second
+  refillPerSecond: number;
+}
+
+type RateLimitState =
+  | { algorithm: "fixed_window"; windowStart: number; count: number }
+  | { algorithm: "sliding_log"; log: { at: number; cost: number }[] }
+  | { algorithm: "sliding_window"; windowStart: number; current: number; previous: number }
+  | { algorithm: "token_bucket"; tokens: number; updatedAt: number }
+  | { algorithm: "gcra"; tat: number };
+
+interface RateLimitRule {
+  config: RateLimitConfig;
+  state: RateLimitState;
+}
+
+export interface RateLimiter {
+  // Stacked limits; a request must fit all of them
+  limits: RateLimitRule[];
+  // False until a caller supplies the limit; placeholders only carry a block
+  configured: boolean;
+  // Registered through rate_limit_configure, so kept by cleanup while idle
+  persistent: boolean;
+  // Set from a server's Retry-After; overrides the algorithm until it passes
+  blockedUntil?: number;
+}
+
+/**
+ * Outcome of checking one limit.
+ *
+ * Every algorithm reports the same things: `remaining` units that would be
+ * allowed right now (after this request, if it was counted), `resetMs` until
+ * the limit is back to full capacity, and `retryAfterMs` until a denied
+ * request would be allowed.
+ */
+export interface RateLimitResult {
+  // Resource whose limit this is
+  resource: string;
+  name: string;
+  algorithm: RateLimitAlgorithm;
+  allowed: boolean;
+  used: number;
+  limit: number;
+  remaining: number;
+  resetMs: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Outcome of checking a request against every limit in scope.
+ *
+ * The top-level numbers come from the binding limit: the one that denied the
+ * request for longest, or, if it was allowed, the one with the least room left.
+ */
+export interface RateLimitDecision extends RateLimitResult {
+  cost: number;
+  blocked: boolean;
+  // Latest block among the scopes, while one is in force
+  blockedUntil?: number;
+  limits: RateLimitResult[];
+}
+
+// A resource's limiter, checked together with the other scopes of a request
+export interface RateLimitScope {
+  resource: string;
+  limiter: RateLimiter;
+}
+
+/**
+ * Ancestors of a hierarchical resource, nearest first:
+ * "github.com/repos/org/x" -> ["github.com/repos/org", "github.com/repos", "github.com"].
+ */
+export function rateLimitAncestors(resource: string): string[] {
+  const ancestors: string[] = [];
+  let end = resource.lastIndexOf("/");
+  while (end > 0) {
+    ancestors.push(resource.slice(0, end));
+    end = resource.lastIndexOf("/", end - 1);
+  }
+  return ancestors;
+}
+
+// Whether `resource` is `root` or sits below it in the hierarchy
+export function isRateLimitDescendant(resource: string, root: string): boolean {
+  return resource === root || resource.startsWith(root.endsWith("/") ? root : `${root}/`);
+}
+
+// Properties describing one limit
+const limitProperties = {
+  algorithm: {
+    type: "string",
+    enum: RATE_LIMIT_ALGORITHMS,
+    description: "fixed_window, sliding_log (exact), sliding_window (weighted counter), token_bucket or gcra",
+    default: "fixed_window"
+  },
+  max_requests: {
+    type: "number",
+    description: "Maximum requests allowed in the window",
+    default: 60,
+    minimum: 1
+  },
+  window_seconds: {
+    type: "number",
+    description: "Time window in seconds",
+    default: 60,
+    minimum: 1
+  },
+  burst: {
+    type: "number",
+    description: "token_bucket capacity or gcra burst size (defaults to max_requests)",
+    minimum: 1
+  },
+  refill_per_second: {
+    type: "number",
+    description: "token_bucket refill rate (defaults to max_requests / window_seconds)",
+    exclusiveMinimum: 0
+  }
+};
+
+// Schema properties shared by the tools that define a limit
+export const rateLimitSchemaProperties = {
+  ...limitProperties,
+  limits: {
+    type: "array",
+    description: "Several limits that must all pass (e.g. per second and per hour); replaces the single-limit parameters",
+    items: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name reported as binding_limit (defaults to '<max_requests>/<window_seconds>s')"
+        },
+        ...limitProperties
+      }
+    },
+    minItems: 1
+  }
+};
+
+// One limit per entry in `limits`, or a single limit from the top-level parameters
+export function rateLimitConfigsFromArgs(args: any): RateLimitConfig[] {
+  const configs: RateLimitConfig[] = Array.isArray(args.limits) && args.limits.length > 0
+    ? args.limits.map(rateLimitConfigFromArgs)
+    : [rateLimitConfigFromArgs(args)];
+
+  const names = new Set(configs.map(config => config.name));
+  if (names.size !== configs.length) {
+    throw new McpError(ErrorCode.InvalidParams, "Rate limit names must be unique");
+  }
+  return configs;
+}
+
+function rateLimitConfigFromArgs(args: any): RateLimitConfig {
+  const {
+    algorithm = "fixed_window",
+    max_requests = 60,
+    window_seconds = 60,
+    burst = max_requests,
+    refill_per_second = max_requests / window_seconds,
+    name = `${max_requests}/${window_seconds}s`
+  } = args;
+
+  if (!RATE_LIMIT_ALGORITHMS.includes(algorithm)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown rate limit algorithm: ${algorithm}. Expected one of ${RATE_LIMIT_ALGORITHMS.join(", ")}`
+    );
+  }
+  if (!(max_requests >= 1) || !(window_seconds > 0) || !(burst >= 1) || !(refill_per_second > 0)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "max_requests and burst must be at least 1; window_seconds and refill_per_second must be positive"
+    );
+  }
+
+  return {
+    name,
+    algorithm,
+    maxRequests: max_requests,
+    windowMs: window_seconds * 1000,
+    burst,
+    refillPerSecond: refill_per_second
+  };
+}
+
+function initialState(config: RateLimitConfig, now: number): RateLimitState {
+  switch (config.algorithm) {
+    case "fixed_window":
+      return { algorithm: "fixed_window", windowStart: now, count: 0 };
+    case "sliding_log":
+      return { algorithm: "sliding_log", log: [] };
+    case "sliding_window":
+      return { algorithm: "sliding_window", windowStart: now, current: 0, previous: 0 };
+    case "token_bucket":
+      return { algorithm: "token_bucket", tokens: config.burst, updatedAt: now };
+    case "gcra":
+      return { algorithm: "gcra", tat: now };
+  }
+}
+
+function createRules(configs: RateLimitConfig[], now: number): RateLimitRule[] {
+  return configs.map(config => ({ config, state: initialState(config, now) }));
+}
+
+export function createRateLimiter(configs: RateLimitConfig[], configured = true, now: number = Date.now()): RateLimiter {
+  return { limits: createRules(configs, now), configured, persistent: false };
+}
+
+// Replace a limiter's limits, starting their counts over
+export function configureRateLimiter(limiter: RateLimiter, configs: RateLimitConfig[], now: number = Date.now()): void {
+  limiter.limits = createRules(configs, now);
+  limiter.configured = true;
+}
+
+// The capacity reported as max_requests
+export function rateLimitCapacity(config: RateLimitConfig): number {
+  return config.algorithm === "token_bucket" || config.algorithm === "gcra" ? config.burst : config.maxRequests;
+}
+
+type AlgorithmResult = Omit<RateLimitResult, "resource" | "name" | "algorithm" | "limit">;
+
+function checkFixedWindow(
+  state: Extract<RateLimitState, { algorithm: "fixed_window" }>,
+  config: RateLimitConfig,
+  now: number,
+  cost: number,
+  consume: boolean
+): AlgorithmResult {
+  // Windows start at the first request after the previous one ended
+  if (state.count === 0 || now >= state.windowStart + config.windowMs) {
+    state.windowStart = now;
+    state.count = 0;
+  }
+
+  const allowed = state.count + cost <= config.maxRequests;
+  if (allowed && consume) {
+    state.count += cost;
+  }
+  const resetMs = state.count > 0 ? state.windowStart + config.windowMs - now : 0;
+
+  return {
+    allowed,
+    used: state.count,
+    remaining: Math.max(0, config.maxRequests - state.count),
+    resetMs,
+    retryAfterMs: allowed ? 0 : state.windowStart + config.windowMs - now
+  };
+}
+
+function checkSlidingLog(
+  state: Extract<RateLimitState, { algorithm: "sliding_log" }>,
+  config: RateLimitConfig,
+  now: number,
+  cost: number,
+  consume: boolean
+): AlgorithmResult {
+  state.log = state.log.filter(request => request.at > now - config.windowMs);
+  let used = state.log.reduce((total, request) => total + request.cost, 0);
+
+  const allowed = used + cost <= config.maxRequests;
+  if (allowed && consume) {
+    state.log.push({ at: now, cost });
+    used += cost;
+  }
+
+  // Denied requests wait for enough of the oldest requests to leave the window
+  let retryAfterMs = 0;
+  if (!allowed) {
+    let freed = 0;
+    for (const request of state.log) {
+      freed += request.cost;
+      if (used - freed + cost <= config.maxRequests) {
+        retryAfterMs = request.at + config.windowMs - now;
+        break;
+      }
+    }
+  }
+
+  const newest = state.log[state.log.length - 1];
+  return {
+    allowed,
+    used,
+    remaining: Math.max(0, config.maxRequests - used),
+    resetMs: newest ? newest.at + config.windowMs - now : 0,
+    retryAfterMs
+  };
+}
+
+function checkSlidingWindow(
+  state: Extract<RateLimitState, { algorithm: "sliding_window" }>,
+  config: RateLimitConfig,
+  now: number,
+  cost: number,
+  consume: boolean
+): AlgorithmResult {
+  const { windowMs, maxRequests } = config;
+
+  // Roll forward to the window containing now
+  const elapsedWindows = Math.floor((now - state.windowStart) / windowMs);
+  if (elapsedWindows > 0) {
+    state.previous = elapsedWindows === 1 ? state.current : 0;
+    state.current = 0;
+    state.windowStart += elapsedWindows * windowMs;
+  }
+
+  // The previous window's count is weighted by how much of it still overlaps
+  const elapsed = now - state.windowStart;
+  const estimate = () => state.previous * (1 - elapsed / windowMs) + state.current;
+
+  const allowed = estimate() + cost <= maxRequests;
+  if (allowed && consume) {
+    state.current += cost;
+  }
+  const used = estimate();
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    const room = maxRequests - cost - state.current;
+    if (room >= 0 && state.previous > 0) {
+      // Fits later in this window once the previous window has decayed enough
+      retryAfterMs = windowMs * (1 - room / state.previous) - elapsed;
+    } else {
+      // Wait for the next window, where this window's count decays in turn
+      const untilNext = windowMs - elapsed;
+      const decay = state.current > 0 ? windowMs * (1 - (maxRequests - cost) / state.current) : 0;
+      retryAfterMs = untilNext + Math.max(0, decay);
+    }
+  }
+
+  let resetMs = 0;
+  if (state.current > 0) {
+    resetMs = 2 * windowMs - elapsed;
+  } else if (state.previous > 0) {
+    resetMs = windowMs - elapsed;
+  }
+
+  return {
+    allowed,
+    used: Math.ceil(used),
+    remaining: Math.max(0, Math.floor(maxRequests - used)),
+    resetMs,
+    retryAfterMs: Math.max(0, Math.ceil(retryAfterMs))
+  };
+}
+
+function checkTokenBucket(
+  state: Extract<RateLimitState, { algorithm: "token_bucket" }>,
+  config: RateLimitConfig,
+  now: number,
+  cost: number,
+  consume: boolean
+): AlgorithmResult {
+  const ratePerMs = config.refillPerSecond / 1000;
+  state.tokens = Math.min(config.burst, state.tokens + (now - state.updatedAt) * ratePerMs);
+  state.updatedAt = now;
+
+  const allowed = state.tokens >= cost;
+  if (allowed && consume) {
+    state.tokens -= cost;
+  }
+
+  return {
+    allowed,
+    used: Math.ceil(config.burst - state.tokens),
+    remaining: Math.floor(state.tokens),
+    resetMs: Math.ceil((config.burst - state.tokens) / ratePerMs),
+    retryAfterMs: allowed ? 0 : Math.ceil((cost - state.tokens) / ratePerMs)
+  };
+}
+
+function checkGcra(
+  state: Extract<RateLimitState, { algorithm: "gcra" }>,
+  config: RateLimitConfig,
+  now: number,
+  cost: number,
+  consume: boolean
+): AlgorithmResult {
+  // One request is "emitted" every interval; up to `burst` may be ahead of schedule
+  const interval = config.windowMs / config.maxRequests;
+  const tolerance = interval * config.burst;
+
+  const tat = Math.max(state.tat, now);
+  const newTat = tat + interval * cost;
+  const allowAt = newTat - tolerance;
+  const allowed = now >= allowAt;
+  if (allowed && consume) {
+    state.tat = newTat;
+  }
+
+  const current = Math.max(state.tat, now);
+  const used = Math.ceil((current - now) / interval);
+  return {
+    allowed,
+    used,
+    remaining: Math.max(0, Math.floor((tolerance - (current - now)) / interval)),
+    resetMs: Math.ceil(current - now),
+    retryAfterMs: allowed ? 0 : Math.ceil(allowAt - now)
+  };
+}
+
+function checkRule(
+  resource: string,
+  rule: RateLimitRule,
+  now: number,
+  cost: number,
+  consume: boolean
+): RateLimitResult {
+  const { config, state } = rule;
+  let result: AlgorithmResult;
+  switch (state.algorithm) {
+    case "fixed_window":
+      result = checkFixedWindow(state, config, now, cost, consume);
+      break;
+    case "sliding_log":
+      result = checkSlidingLog(state, config, now, cost, consume);
+      break;
+    case "sliding_window":
+      result = checkSlidingWindow(state, config, now, cost, consume);
+      break;
+    case "token_bucket":
+      result = checkTokenBucket(state, config, now, cost, consume);
+      break;
+    case "gcra":
+      result = checkGcra(state, config, now, cost, consume);
+      break;
+  }
+  return { resource, name: config.name, algorithm: config.algorithm, limit: rateLimitCapacity(config), ...result };
+}
+
+// A request costing more than a limit's capacity could never be allowed
+export function validateRateLimitCost(scopes: RateLimitScope[], cost: number): void {
+  if (!(cost > 0)) {
+    throw new McpError(ErrorCode.InvalidParams, "cost must be positive");
+  }
+  for (const { resource, limiter } of scopes) {
+    for (const { config } of limiter.limits) {
+      if (cost > rateLimitCapacity(config)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `cost ${cost} exceeds the capacity of limit ${config.name} on ${resource} (${rateLimitCapacity(config)})`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Start a limiter's counts over, optionally as if `used` units had just been
+ * consumed (capped at each limit's capacity), and lift any block.
+ */
+export function resetRateLimiter(limiter: RateLimiter, used = 0, now: number = Date.now()): void {
+  limiter.limits = createRules(limiter.limits.map(rule => rule.config), now);
+  limiter.blockedUntil = undefined;
+
+  if (used > 0) {
+    for (const rule of limiter.limits) {
+      checkRule("", rule, now, Math.min(used, rateLimitCapacity(rule.config)), true);
+    }
+  }
+}
+
+// Whether a limiter is back to full capacity with no block in force
+export function isRateLimiterIdle(limiter: RateLimiter, now: number = Date.now()): boolean {
+  if (limiter.blockedUntil !== undefined && limiter.blockedUntil > now) {
+    return false;
+  }
+  return limiter.limits.every(rule => checkRule("", rule, now, 1, false).resetMs === 0);
+}
+
+/**
+ * Check a request of `cost` units against every limit of every scope, counting
+ * it against all of them only when all allow it and `consume` is set.
+ */
+export function checkRateLimit(
+  scopes: RateLimitScope[],
+  cost = 1,
+  consume = true,
+  now: number = Date.now()
+): RateLimitDecision {
+  const blocks = scopes
+    .map(({ limiter }) => limiter.blockedUntil ?? 0)
+    .filter(until => until > now);
+  const blocked = blocks.length > 0;
+
+  const checkAll = (count: boolean) => scopes.flatMap(({ resource, limiter }) =>
+    limiter.limits.map(rule => checkRule(resource, rule, now, cost, count))
+  );
+
+  let results = checkAll(false);
+  const allowed = !blocked && results.every(result => result.allowed);
+  // A block refuses everything, so nothing is counted while it lasts
+  if (allowed && consume) {
+    results = checkAll(true);
+  }
+
+  const denied = results.filter(result => !result.allowed);
+  const binding = denied.length > 0
+    ? denied.reduce((a, b) => (b.retryAfterMs > a.retryAfterMs ? b : a))
+    : results.reduce((a, b) => (b.remaining / b.limit < a.remaining / a.limit ? b : a));
+
+  const decision: RateLimitDecision = {
+    ...binding,
+    allowed,
+    remaining: Math.min(...results.map(result => result.remaining)),
+    resetMs: Math.max(...results.map(result => result.resetMs)),
+    cost,
+    blocked,
+    limits: results
+  };
+
+  if (blocked) {
+    const blockedUntil = Math.max(...blocks);
+    decision.blockedUntil = blockedUntil;
+    decision.remaining = 0;
+    decision.resetMs = Math.max(decision.resetMs, blockedUntil - now);
+    decision.retryAfterMs = Math.max(decision.retryAfterMs, blockedUntil - now);
+  }
+
+  return decision;
+}
@@ -1,6 +1,12 @@
 #!/usr/bin/env node
 import { spawn } from 'child_process';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
 import { createInterface } from 'readline';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout } from 'timers/promises';
 
 // MCP JSON-RPC message structure
 interface JsonRpcMessage {
@@ -17,14 +23,19 @@ class MCPTestClient {
   private rl: any;
   private messageId = 1;
   private pendingRequests = new Map<number, { resolve: Function; reject: Function }>();
+  // Notifications received from the server, e.g. progress updates
+  notifications: JsonRpcMessage[] = [];
+  // Everything the server wrote to stderr, e.g. Node warnings
+  stderr: string[] = [];
 
-  constructor(private serverPath: string) {}
+  constructor(private serverPath: string, private env: Record<string, string> = {}) {}
 
   async start() {
     console.log(`Starting MCP server: ${this.serverPath}`);
     
     this.process = spawn('node', [this.serverPath], {
-      stdio: ['pipe', 'pipe', 'pipe']
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, ...this.env }
     });
 
     this.rl = createInterface({
@@ -45,6 +56,8 @@ class MCPTestClient {
           } else {
             resolve(message.result);
           }
+        } else if (message.method) {
+          this.notifications.push(message);
         }
       } catch (e) {
         // Ignore non-JSON lines (like console.error output)
@@ -52,6 +65,7 @@ class MCPTestClient {
     });
 
     this.process.stderr.on('data', (data: Buffer) => {
+      this.stderr.push(data.toString());
       console.error('Server stderr:', data.toString());
     });
 
@@ -87,10 +101,11 @@ class MCPTestClient {
     return await this.sendRequest('tools/list');
   }
 
-  async callTool(name: string, args: any) {
+  async callTool(name: string, args: any, progressToken?: string | number) {
     return await this.sendRequest('tools/call', {
       name,
-      arguments: args
+      arguments: args,
+      ...(progressToken !== undefined && { _meta: { progressToken } })
     });
   }
 
@@ -138,14 +153,279 @@ async function testCacheOperations(client: MCPTestClient) {
   });
   console.log('Delete result:', JSON.parse(deleteResult.content[0].text));
 
-  // Test cache clear
-  console.log('\n5. Testing cache_clear...');
   await client.callTool('cache_put', { key: 'key1', value: 'val1' });
   await client.callTool('cache_put', { key: 'key2', value: 'val2' });
+
+  // Test cache listing and stats
+  console.log('\n5. Testing cache_list...');
+  const listResult = await client.callTool('cache_list', { pattern: 'key*' });
+  console.log('List result:', JSON.parse(listResult.content[0].text));
+
+  console.log('\n6. Testing cache_stats...');
+  const statsResult = await client.callTool('cache_stats', { namespace: 'users' });
+  console.log('Stats result:', JSON.parse(statsResult.content[0].text));
+
+  // Test cache clear
+  console.log('\n7. Testing cache_clear...');
   const clearResult = await client.callTool('cache_clear', {});
   console.log('Clear result:', JSON.parse(clearResult.content[0].text));
 }
 
+async function testBulkCacheOperations(client: MCPTestClient) {
+  console.log('\n=== Testing Bulk Cache Operations ===');
+
+  console.log('1. Testing cache_mput...');
+  const putResult = await client.callTool('cache_mput', {
+    entries: [
+      { key: 'a', value: 1 },
+      { key: 'b', value: 2, ttl_seconds: 30 },
+      { key: 'c', value: 3, namespace: 'other' }
+    ],
+    namespace: 'bulk'
+  });
+  console.log('Mput result:', JSON.parse(putResult.content[0].text));
+
+  console.log('\n2. Testing cache_mget with a partial miss...');
+  const getResult = await client.callTool('cache_mget', {
+    keys: [{ key: 'a' }, { key: 'missing' }, { key: 'c', namespace: 'other' }],
+    namespace: 'bulk'
+  });
+  console.log('Mget result:', JSON.parse(getResult.content[0].text));
+
+  console.log('\n3. Testing cache_mdelete...');
+  const deleteResult = await client.callTool('cache_mdelete', {
+    keys: [{ key: 'a' }, { key: 'b' }, { key: 'c', namespace: 'other' }],
+    namespace: 'bulk'
+  });
+  console.log('Mdelete result:', JSON.parse(deleteResult.content[0].text));
+}
+
+async function testCacheInvalidation(client: MCPTestClient) {
+  console.log('\n=== Testing Cache Invalidation ===');
+
+  await client.callTool('cache_put', {
+    key: 'contents:src/index.ts',
+    value: 'file contents',
+    namespace: 'repo',
+    tags: ['file:src/index.ts']
+  });
+  await client.callTool('cache_put', {
+    key: 'blame:src/index.ts',
+    value: 'blame output',
+    namespace: 'repo',
+    tags: ['file:src/index.ts']
+  });
+  await client.callTool('cache_put', { key: 'contents:README.md', value: 'readme', namespace: 'repo' });
+  await client.callTool('cache_put', { key: 'issues:open', value: [], namespace: 'repo' });
+
+  console.log('1. Invalidating by tag (should drop 2 entries)...');
+  const byTag = await client.callTool('cache_invalidate', { tags: ['file:src/index.ts'] });
+  console.log('By tag:', JSON.parse(byTag.content[0].text));
+
+  console.log('\n2. Invalidating by glob within namespace (should drop README)...');
+  const byPattern = await client.callTool('cache_invalidate', {
+    pattern: 'contents:*',
+    namespace: 'repo'
+  });
+  console.log('By pattern:', JSON.parse(byPattern.content[0].text));
+
+  console.log('\n3. Unrelated entry survives...');
+  const survivor = await client.callTool('cache_get', { key: 'issues:open', namespace: 'repo' });
+  console.log('Survivor:', JSON.parse(survivor.content[0].text));
+}
+
+async function testAtomicCacheOperations(client: MCPTestClient) {
+  console.log('\n=== Testing Atomic Cache Operations ===');
+
+  console.log('1. Testing cache_put_if_absent (should store)...');
+  const first = await client.callTool('cache_put_if_absent', {
+    key: 'lock',
+    value: 'session-a',
+    namespace: 'atomic'
+  });
+  const firstParsed = JSON.parse(first.content[0].text);
+  console.log('First claim:', firstParsed);
+
+  console.log('\n2. Testing cache_put_if_absent (should not store)...');
+  const second = await client.callTool('cache_put_if_absent', {
+    key: 'lock',
+    value: 'session-b',
+    namespace: 'atomic'
+  });
+  console.log('Second claim:', JSON.parse(second.content[0].text));
+
+  console.log('\n3. Testing cache_cas with stale version (should fail)...');
+  const staleCas = await client.callTool('cache_cas', {
+    key: 'lock',
+    value: 'session-b',
+    expected_version: firstParsed.version + 1,
+    namespace: 'atomic'
+  });
+  console.log('Stale CAS:', JSON.parse(staleCas.content[0].text));
+
+  console.log('\n4. Testing cache_cas with current version (should succeed)...');
+  const cas = await client.callTool('cache_cas', {
+    key: 'lock',
+    value: 'session-b',
+    expected_version: firstParsed.version,
+    namespace: 'atomic'
+  });
+  console.log('CAS:', JSON.parse(cas.content[0].text));
+
+  console.log('\n5. Testing cache_cas by value with keys in a different order (should succeed)...');
+  await client.callTool('cache_put', { key: 'config', value: { mode: 'a', retries: 2 }, namespace: 'atomic' });
+  const valueCas = await client.callTool('cache_cas', {
+    key: 'config',
+    value: { mode: 'b', retries: 2 },
+    expected_value: { retries: 2, mode: 'a' },
+    namespace: 'atomic'
+  });
+  console.log('Value CAS:', JSON.parse(valueCas.content[0].text).success);
+
+  console.log('\n6. Testing cache_cas against a deleted and re-created key (should fail)...');
+  const original = JSON.parse((await client.callTool('cache_put', { key: 'aba', value: 'a', namespace: 'atomic' })).content[0].text);
+  await client.callTool('cache_delete', { key: 'aba', namespace: 'atomic' });
+  const recreated = JSON.parse((await client.callTool('cache_put', { key: 'aba', value: 'b', namespace: 'atomic' })).content[0].text);
+  const abaCas = await client.callTool('cache_cas', {
+    key: 'aba',
+    value: 'stale-writer',
+    expected_version: original.version,
+    namespace: 'atomic'
+  });
+  console.log(`Versions ${original.version} -> ${recreated.version}; CAS:`, JSON.parse(abaCas.content[0].text));
+
+  console.log('\n7. Testing cache_incr...');
+  await client.callTool('cache_incr', { key: 'counter', namespace: 'atomic' });
+  const incr = await client.callTool('cache_incr', { key: 'counter', delta: 5, namespace: 'atomic' });
+  console.log('Counter:', JSON.parse(incr.content[0].text));
+
+  console.log('\n8. Testing a namespace containing a colon (should be rejected)...');
+  try {
+    await client.callTool('cache_put', { key: 'k', value: 1, namespace: 'a:b' });
+    console.log('Unexpectedly accepted');
+  } catch (error) {
+    console.log('Rejected:', (error as Error).message);
+  }
+
+  console.log('\n9. Testing cache_incr with a non-numeric delta (should be rejected)...');
+  try {
+    await client.callTool('cache_incr', { key: 'counter', delta: 'x', namespace: 'atomic' });
+    console.log('Unexpectedly accepted');
+  } catch (error) {
+    console.log('Rejected:', (error as Error).message);
+  }
+}
+
+async function testCacheExpiryModes(client: MCPTestClient) {
+  console.log('\n=== Testing Sliding and Stale Expiry ===');
+
+  await client.callTool('cache_put', {
+    key: 'stale-ok',
+    value: 'old response',
+    ttl_seconds: 1,
+    stale_ttl_seconds: 60,
+    namespace: 'expiry'
+  });
+  await client.callTool('cache_put', {
+    key: 'session',
+    value: 'active',
+    ttl_seconds: 2,
+    sliding: true,
+    namespace: 'expiry'
+  });
+
+  // Read the sliding entry partway through its TTL to push expiry out
+  await setTimeout(1200);
+  await client.callTool('cache_get', { key: 'session', namespace: 'expiry' });
+
+  console.log('1. Reading past TTL within stale window (should be stale)...');
+  const staleResult = await client.callTool('cache_get', { key: 'stale-ok', namespace: 'expiry' });
+  console.log('Stale result:', JSON.parse(staleResult.content[0].text));
+
+  await setTimeout(1200);
+  console.log('\n2. Reading sliding entry after original TTL (should find)...');
+  const slidingResult = await client.callTool('cache_get', { key: 'session', namespace: 'expiry' });
+  console.log('Sliding result:', JSON.parse(slidingResult.content[0].text));
+
+  console.log('\n3. Testing cache_touch...');
+  const touchResult = await client.callTool('cache_touch', {
+    key: 'stale-ok',
+    ttl_seconds: 120,
+    namespace: 'expiry'
+  });
+  console.log('Touch result:', JSON.parse(touchResult.content[0].text));
+}
+
+async function testCachePersistence(serverPath: string) {
+  console.log('\n=== Testing Cache Persistence ===');
+
+  const cacheDir = mkdtempSync(join(tmpdir(), 'mcp-utility-cache-'));
+  const env = { MCP_UTILITY_CACHE_DIR: cacheDir };
+
+  try {
+    // Store a value, then restart the server against the same directory
+    console.log('1. Storing value before restart...');
+    const first = new MCPTestClient(serverPath, env);
+    await first.start();
+    await first.callTool('cache_put', {
+      key: 'persisted-key',
+      value: { survives: true },
+      ttl_seconds: 60,
+      namespace: 'persist'
+    });
+    await first.callTool('cache_put', { key: 'deleted-key', value: 1, namespace: 'persist' });
+    await first.callTool('cache_delete', { key: 'deleted-key', namespace: 'persist' });
+    await first.stop();
+
+    console.log('\n2. Reading value after restart (should find)...');
+    const second = new MCPTestClient(serverPath, env);
+    await second.start();
+    const getResult = await second.callTool('cache_get', {
+      key: 'persisted-key',
+      namespace: 'persist'
+    });
+    console.log('Get after restart:', JSON.parse(getResult.content[0].text));
+    await second.stop();
+
+    // Startup compacts the log; the deleted key's version must still not come back
+    console.log('\n3. Re-creating the deleted key after another restart (version should be 3)...');
+    const third = new MCPTestClient(serverPath, env);
+    await third.start();
+    const putResult = await third.callTool('cache_put', { key: 'deleted-key', value: 2, namespace: 'persist' });
+    console.log('Version:', JSON.parse(putResult.content[0].text).version);
+    await third.stop();
+  } finally {
+    rmSync(cacheDir, { recursive: true, force: true });
+  }
+}
+
+async function testCacheEviction(serverPath: string) {
+  console.log('\n=== Testing Cache Eviction ===');
+
+  const client = new MCPTestClient(serverPath, {
+    MCP_UTILITY_CACHE_NAMESPACE_MAX_ENTRIES: '2'
+  });
+  await client.start();
+
+  try {
+    await client.callTool('cache_put', { key: 'a', value: 1, namespace: 'bounded' });
+    await client.callTool('cache_put', { key: 'b', value: 2, namespace: 'bounded' });
+
+    // Reading 'a' makes 'b' the least recently used entry
+    await client.callTool('cache_get', { key: 'a', namespace: 'bounded' });
+
+    console.log('1. Exceeding namespace entry limit (should evict b)...');
+    const putResult = await client.callTool('cache_put', { key: 'c', value: 3, namespace: 'bounded' });
+    console.log('Put result:', JSON.parse(putResult.content[0].text));
+
+    console.log('\n2. Reading evicted key (should miss)...');
+    const getResult = await client.callTool('cache_get', { key: 'b', namespace: 'bounded' });
+    console.log('Get result:', JSON.parse(getResult.content[0].text));
+  } finally {
+    await client.stop();
+  }
+}
+
 async function testRetryOperations(client: MCPTestClient) {
   console.log('\n=== Testing Retry Operations ===');
   
@@ -155,7 +435,7 @@ async function testRetryOperations(client: MCPTestClient) {
   console.log('1. First retry attempt...');
   const attempt1 = await client.callTool('retry_operation', {
     operation_id: operationId,
-    operation_type: 'http_request',
+    operation_type: 'custom',
     operation_data: { url: 'https://api.example.com/data' },
     max_retries: 3,
     initial_delay_ms: 1000
@@ -166,7 +446,7 @@ async function testRetryOperations(client: MCPTestClient) {
   console.log('\n2. Second retry attempt (should show attempt 2)...');
   const attempt2 = await client.callTool('retry_operation', {
     operation_id: operationId,
-    operation_type: 'http_request',
+    operation_type: 'custom',
     operation_data: { url: 'https://api.example.com/data' },
     max_retries: 3,
     initial_delay_ms: 1000
@@ -183,40 +463,693 @@ async function testRetryOperations(client: MCPTestClient) {
     should_execute: false
   });
   console.log('New operation:', JSON.parse(newOp.content[0].text));
+
+  // Dry run returns the planned schedule without touching retry state
+  console.log('\n4. Dry run with fibonacci backoff...');
+  const dryRun = await client.callTool('retry_operation', {
+    operation_id: 'dry-run-' + Date.now(),
+    operation_type: 'custom',
+    operation_data: {},
+    max_retries: 6,
+    initial_delay_ms: 500,
+    max_delay_ms: 3000,
+    strategy: 'fibonacci',
+    dry_run: true
+  });
+  console.log('Dry run:', JSON.parse(dryRun.content[0].text));
+}
+
+async function testRetryOutcomes(client: MCPTestClient) {
+  console.log('\n=== Testing Retry Outcome Reports ===');
+
+  const operationId = 'outcome-' + Date.now();
+  const request = {
+    operation_id: operationId,
+    operation_type: 'custom',
+    operation_data: { task: 'sync' },
+    initial_delay_ms: 100
+  };
+
+  await client.callTool('retry_operation', request);
+
+  console.log('1. Reporting a retryable failure...');
+  const failure = await client.callTool('retry_operation', {
+    operation_id: operationId,
+    initial_delay_ms: 100,
+    outcome: { success: false, error: 'HTTP 429', error_class: 'rate_limited', retry_after_ms: 300 }
+  });
+  const failureParsed = JSON.parse(failure.content[0].text);
+  console.log('Failure report:', failureParsed);
+
+  await setTimeout(failureParsed.wait_ms);
+  const attempt2 = await client.callTool('retry_operation', request);
+  console.log('\n2. Next attempt after wait:', JSON.parse(attempt2.content[0].text));
+
+  console.log('\n3. Reporting success...');
+  const success = await client.callTool('retry_operation', {
+    operation_id: operationId,
+    outcome: { success: true }
+  });
+  console.log('Success report:', JSON.parse(success.content[0].text));
+
+  const again = await client.callTool('retry_operation', request);
+  console.log('\n4. Calling again (should be already_succeeded):', JSON.parse(again.content[0].text));
+
+  console.log('\n5. Reporting a second outcome for the finished attempt (should be rejected)...');
+  try {
+    await client.callTool('retry_operation', {
+      operation_id: operationId,
+      outcome: { success: false, error: 'HTTP 401', error_class: 'auth' }
+    });
+    console.log('Unexpectedly accepted');
+  } catch (error) {
+    console.log('Rejected:', (error as Error).message);
+  }
+
+  console.log('\n6. Reporting a fatal failure...');
+  const fatalId = 'fatal-' + Date.now();
+  await client.callTool('retry_operation', { ...request, operation_id: fatalId });
+  const fatal = await client.callTool('retry_operation', {
+    operation_id: fatalId,
+    outcome: { success: false, error: 'HTTP 401', error_class: 'auth' }
+  });
+  console.log('Fatal report:', JSON.parse(fatal.content[0].text));
+
+  console.log('\n7. Reporting outcomes without max_retries keeps the limit from execute_attempt...');
+  const limitRequest = { ...request, operation_id: 'limit-' + Date.now(), max_retries: 5 };
+  const statuses = [];
+  for (let i = 0; i < 3; i++) {
+    const attempt = JSON.parse((await client.callTool('retry_operation', limitRequest)).content[0].text);
+    const report = await client.callTool('retry_operation', {
+      operation_id: limitRequest.operation_id,
+      outcome: { success: false, error: 'HTTP 503', status_code: 503 }
+    });
+    const reportParsed = JSON.parse(report.content[0].text);
+    statuses.push(`${attempt.status} -> ${reportParsed.status}`);
+    await setTimeout(reportParsed.wait_ms ?? 0);
+  }
+  console.log('Attempts (all retry_scheduled expected):', statuses);
+  const tracked = await client.callTool('retry_get', { operation_id: limitRequest.operation_id });
+  console.log('Stored max_retries (5 expected):', JSON.parse(tracked.content[0].text).max_retries);
+}
+
+async function testRetryStateTools(client: MCPTestClient) {
+  console.log('\n=== Testing Retry State Tools ===');
+
+  const prefix = 'inspect-' + Date.now();
+  const request = {
+    operation_id: prefix + '-a',
+    operation_type: 'custom',
+    operation_data: {},
+    max_retries: 1,
+    initial_delay_ms: 100
+  };
+  await client.callTool('retry_operation', request);
+  await client.callTool('retry_operation', {
+    operation_id: request.operation_id,
+    outcome: { success: false, error: 'HTTP 503', status_code: 503 }
+  });
+
+  const list = await client.callTool('retry_list', { prefix });
+  console.log('1. Tracked operations (should be max_retries_exceeded):', JSON.parse(list.content[0].text));
+
+  const detail = await client.callTool('retry_get', { operation_id: request.operation_id });
+  console.log('\n2. Attempt history:', JSON.parse(detail.content[0].text));
+
+  const reset = await client.callTool('retry_reset', { operation_id: request.operation_id });
+  console.log('\n3. Reset:', JSON.parse(reset.content[0].text));
+
+  const restarted = await client.callTool('retry_operation', request);
+  console.log('\n4. Next call starts over (attempt 1):', JSON.parse(restarted.content[0].text));
+
+  await client.callTool('retry_reset', { operation_id: request.operation_id, delete: true });
+  const gone = await client.callTool('retry_get', { operation_id: request.operation_id });
+  console.log('\n5. After delete (should not be found):', JSON.parse(gone.content[0].text));
+}
+
+async function testCircuitBreaker(client: MCPTestClient) {
+  console.log('\n=== Testing Circuit Breaker ===');
+
+  const resource = 'flaky-api-' + Date.now();
+  await client.callTool('circuit_breaker_configure', {
+    resource,
+    failure_threshold: 2,
+    cooldown_seconds: 1
+  });
+
+  console.log('1. Recording failures until the circuit opens...');
+  await client.callTool('circuit_breaker_record', { resource, success: false });
+  const opened = await client.callTool('circuit_breaker_record', { resource, success: false });
+  console.log('After 2 failures:', JSON.parse(opened.content[0].text));
+
+  console.log('\n2. retry_operation against the open circuit...');
+  const request = {
+    operation_id: 'breaker-' + Date.now(),
+    operation_type: 'custom',
+    operation_data: {},
+    resource
+  };
+  const refused = await client.callTool('retry_operation', request);
+  console.log('Refused:', JSON.parse(refused.content[0].text));
+
+  await setTimeout(1100);
+  console.log('\n3. After cool-down (should allow one trial)...');
+  const trial = await client.callTool('retry_operation', request);
+  console.log('Trial:', JSON.parse(trial.content[0].text));
+
+  await client.callTool('retry_operation', {
+    operation_id: request.operation_id,
+    outcome: { success: true }
+  });
+  const closed = await client.callTool('circuit_breaker_check', { resource });
+  console.log('\n4. After successful trial:', JSON.parse(closed.content[0].text));
+
+  console.log('\n5. A half-open trial that fails fatally frees the trial slot...');
+  await client.callTool('circuit_breaker_record', { resource, success: false });
+  await client.callTool('circuit_breaker_record', { resource, success: false });
+  await setTimeout(1100);
+  const fatalTrial = { ...request, operation_id: 'breaker-fatal-' + Date.now() };
+  await client.callTool('retry_operation', fatalTrial);
+  await client.callTool('retry_operation', {
+    operation_id: fatalTrial.operation_id,
+    outcome: { success: false, error: 'HTTP 401', error_class: 'auth' }
+  });
+  const nextTrial = await client.callTool('retry_operation', { ...request, operation_id: 'breaker-next-' + Date.now() });
+  console.log('Next operation (execute_attempt expected):', JSON.parse(nextTrial.content[0].text).status);
+}
+
+async function testRetryBudget(client: MCPTestClient) {
+  console.log('\n=== Testing Retry Budget ===');
+
+  const resource = 'budgeted-api-' + Date.now();
+  await client.callTool('retry_budget_configure', { resource, ratio: 0, min_retries: 1 });
+
+  // Each operation fails once and asks for a retry; only one retry fits the budget
+  const results = [];
+  for (const suffix of ['a', 'b']) {
+    const request = {
+      operation_id: `budget-${suffix}-${Date.now()}`,
+      operation_type: 'custom',
+      operation_data: {},
+      initial_delay_ms: 100,
+      resource
+    };
+    await client.callTool('retry_operation', request);
+    await client.callTool('retry_operation', {
+      operation_id: request.operation_id,
+      outcome: { success: false, error: 'timeout', error_class: 'timeout' }
+    });
+    await setTimeout(150);
+    const retry = await client.callTool('retry_operation', request);
+    results.push(JSON.parse(retry.content[0].text));
+  }
+
+  console.log('1. First retry (within budget):', results[0].status);
+  console.log('2. Second retry (budget exhausted):', results[1]);
+
+  const status = await client.callTool('retry_budget_status', { resource });
+  console.log('\n3. Budget status:', JSON.parse(status.content[0].text));
+}
+
+async function testServerSideRetries(client: MCPTestClient) {
+  console.log('\n=== Testing Server-Side Retries ===');
+
+  // Local server that fails twice with 503 before succeeding
+  let requests = 0;
+  const httpServer = createServer((req, res) => {
+    requests++;
+    if (requests <= 2) {
+      res.writeHead(503).end('unavailable');
+    } else {
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ ok: true }));
+    }
+  });
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  const tempDir = mkdtempSync(join(tmpdir(), 'mcp-utility-retry-'));
+  const filePath = join(tempDir, 'data.txt');
+  writeFileSync(filePath, 'hello from disk');
+
+  try {
+    console.log('1. http_request recovering after two 503s...');
+    const httpResult = await client.callTool('retry_operation', {
+      operation_id: 'http-' + Date.now(),
+      operation_type: 'http_request',
+      operation_data: { url: `http://127.0.0.1:${port}/data` },
+      max_retries: 3,
+      initial_delay_ms: 100
+    });
+    console.log('HTTP result:', JSON.parse(httpResult.content[0].text));
+
+    console.log('\n2. file_operation read...');
+    const fileResult = await client.callTool('retry_operation', {
+      operation_id: 'file-' + Date.now(),
+      operation_type: 'file_operation',
+      operation_data: { action: 'read', path: filePath }
+    });
+    console.log('File result:', JSON.parse(fileResult.content[0].text));
+
+    console.log('\n3. file_operation on missing file (should fail without retrying)...');
+    const missingResult = await client.callTool('retry_operation', {
+      operation_id: 'missing-' + Date.now(),
+      operation_type: 'file_operation',
+      operation_data: { action: 'stat', path: join(tempDir, 'missing.txt') }
+    });
+    console.log('Missing result:', JSON.parse(missingResult.content[0].text));
+
+    console.log('\n4. Built-in property name as operation_type (should use the cooperative flow)...');
+    const builtinResult = await client.callTool('retry_operation', {
+      operation_id: 'builtin-' + Date.now(),
+      operation_type: 'constructor',
+      operation_data: { x: 1 }
+    });
+    console.log('Status (execute_attempt expected):', JSON.parse(builtinResult.content[0].text).status);
+  } finally {
+    httpServer.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+async function testRetryAfterHeaders(client: MCPTestClient) {
+  console.log('\n=== Testing Retry-After Headers ===');
+
+  const resource = 'throttled-api-' + Date.now();
+  const request = {
+    operation_id: 'retry-after-' + Date.now(),
+    operation_type: 'custom',
+    operation_data: {},
+    initial_delay_ms: 100,
+    resource
+  };
+  await client.callTool('retry_operation', request);
+
+  console.log('1. Reporting a 429 with Retry-After: 1...');
+  const throttled = await client.callTool('retry_operation', {
+    operation_id: request.operation_id,
+    update_rate_limit: true,
+    outcome: { success: false, status_code: 429, response_headers: { 'Retry-After': '1' } }
+  });
+  console.log('Throttled (should wait ~1000ms):', JSON.parse(throttled.content[0].text));
+
+  const blocked = await client.callTool('rate_limit_check', { resource, increment: false });
+  console.log('\n2. Rate limit while blocked (should not be allowed):', JSON.parse(blocked.content[0].text));
+
+  console.log('\n3. Reporting a hint above max_retry_after_ms...');
+  const cappedRequest = { ...request, operation_id: 'retry-after-capped-' + Date.now() };
+  await client.callTool('retry_operation', cappedRequest);
+  const capped = await client.callTool('retry_operation', {
+    operation_id: cappedRequest.operation_id,
+    max_retry_after_ms: 200,
+    outcome: { success: false, status_code: 503, response_headers: { 'retry-after-ms': '60000' } }
+  });
+  console.log('Capped (server_hint_ms should be 200):', JSON.parse(capped.content[0].text));
 }
 
 async function testBatchOperations(client: MCPTestClient) {
   console.log('\n=== Testing Batch Operations ===');
-  
-  // Test batch with concurrency
-  console.log('1. Testing batch operation with concurrency...');
-  const batchResult = await client.callTool('batch_operation', {
-    operations: [
-      { id: 'op1', type: 'fetch', data: { url: '/api/users/1' } },
-      { id: 'op2', type: 'fetch', data: { url: '/api/users/2' } },
-      { id: 'op3', type: 'fetch', data: { url: '/api/users/3' } },
-      { id: 'op4', type: 'fetch', data: { url: '/api/users/4' } },
-      { id: 'op5', type: 'fetch', data: { url: '/api/users/5' } }
-    ],
-    concurrency: 2,
-    timeout_ms: 5000,
-    use_cache: true,
-    cache_ttl_seconds: 60
-  });
-  const parsed = JSON.parse(batchResult.content[0].text);
-  console.log(`Batch completed: ${parsed.successful} successful, ${parsed.failed} failed`);
-  console.log('First result:', parsed.results[0]);
-
-  // Test with cached results
-  console.log('\n2. Testing batch with cached results...');
-  const cachedBatch = await client.callTool('batch_operation', {
-    operations: [
-      { id: 'op1', type: 'fetch', data: { url: '/api/users/1' } }
-    ],
-    use_cache: true
+
+  // Local API serving /api/users/<n>
+  const httpServer = createServer((req, res) => {
+    const id = Number(req.url!.split('/').pop());
+    res.writeHead(200, { 'content-type': 'application/json' })
+      .end(JSON.stringify({ id, name: `user-${id}`, active: id % 2 === 1 }));
+  });
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  try {
+    // Test batch with concurrency
+    console.log('1. Testing batch operation with concurrency...');
+    const batchResult = await client.callTool('batch_operation', {
+      operations: [1, 2, 3, 4, 5].map(n => ({
+        id: `op${n}`,
+        type: 'http_request',
+        data: { url: `${baseUrl}/api/users/${n}` }
+      })),
+      concurrency: 2,
+      timeout_ms: 5000,
+      use_cache: true,
+      cache_ttl_seconds: 60
+    });
+    const parsed = JSON.parse(batchResult.content[0].text);
+    console.log(`Batch completed: ${parsed.successful} successful, ${parsed.failed} failed`);
+    console.log('First result:', parsed.results[0]);
+
+    // Test with cached results
+    console.log('\n2. Testing batch with cached results...');
+    const cachedBatch = await client.callTool('batch_operation', {
+      operations: [
+        { id: 'op1', type: 'http_request', data: { url: `${baseUrl}/api/users/1` } }
+      ],
+      use_cache: true
+    });
+    const cachedParsed = JSON.parse(cachedBatch.content[0].text);
+    console.log('Cached result:', cachedParsed.results[0]);
+
+    console.log('\n3. JSON transforms and cache lookups...');
+    await client.callTool('cache_put', { key: 'batch-user', value: { name: 'cached-user' }, namespace: 'batch-test' });
+    const mixed = await client.callTool('batch_operation', {
+      operations: [
+        {
+          id: 'active-names',
+          type: 'json_transform',
+          data: {
+            input: [1, 2, 3].map(id => ({ id, name: `user-${id}`, active: id % 2 === 1 })),
+            steps: [{ op: 'filter', path: 'active' }, { op: 'map', path: 'name' }]
+          }
+        },
+        { id: 'lookup', type: 'cache_get', data: { key: 'batch-user', namespace: 'batch-test' } },
+        { id: 'missing-file', type: 'file_operation', data: { action: 'stat', path: join(tmpdir(), 'no-such-file-' + Date.now()) } }
+      ]
+    });
+    console.log('Mixed batch:', JSON.parse(mixed.content[0].text).results);
+
+    console.log('\n4. Unknown operation types (should be rejected)...');
+    for (const type of ['fetch', 'toString', 'constructor']) {
+      try {
+        await client.callTool('batch_operation', {
+          operations: [{ id: 'op1', type, data: {} }]
+        });
+        console.log(`${type}: unexpectedly accepted`);
+      } catch (error) {
+        console.log(`${type}: rejected -`, (error as Error).message);
+      }
+    }
+  } finally {
+    httpServer.close();
+  }
+}
+
+async function testBatchProgressAndPaging(client: MCPTestClient) {
+  console.log('\n=== Testing Batch Progress and Result Paging ===');
+
+  const progressToken = 'batch-progress-' + Date.now();
+  const operations = Array.from({ length: 12 }, (_, i) => ({
+    id: `transform-${i}`,
+    type: 'json_transform',
+    data: { input: { n: i }, steps: i === 5 ? [{ op: 'count' }] : [{ op: 'get', path: 'n' }] }
+  }));
+
+  console.log('1. Summary mode with a progress token...');
+  const summary = await client.callTool('batch_operation', { operations, result_mode: 'summary' }, progressToken);
+  const summaryParsed = JSON.parse(summary.content[0].text);
+  console.log('Summary (1 failure expected):', summaryParsed);
+
+  const progress = client.notifications.filter(n =>
+    n.method === 'notifications/progress' && n.params.progressToken === progressToken
+  );
+  console.log(`Progress notifications received: ${progress.length} (last: ${progress[progress.length - 1]?.params.progress}/${progress[progress.length - 1]?.params.total})`);
+
+  console.log('\n2. Paging through the stored results...');
+  const page = await client.callTool('batch_results', { batch_id: summaryParsed.batch_id, offset: 10, limit: 5 });
+  console.log('Last page:', JSON.parse(page.content[0].text));
+
+  const failures = await client.callTool('batch_results', { batch_id: summaryParsed.batch_id, status: 'failed' });
+  console.log('Failed only:', JSON.parse(failures.content[0].text).results);
+}
+
+async function testDetachedBatchJobs(client: MCPTestClient) {
+  console.log('\n=== Testing Detached Batch Jobs ===');
+
+  // Slow endpoint, so the job is still running when we cancel it
+  const httpServer = createServer((req, res) => {
+    const timer = globalThis.setTimeout(() => res.end(JSON.stringify({ path: req.url })), 300);
+    res.on('close', () => clearTimeout(timer));
+  });
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  try {
+    console.log('1. Starting a detached batch...');
+    const started = await client.callTool('batch_operation', {
+      operations: Array.from({ length: 5 }, (_, i) => ({
+        id: `slow-${i}`,
+        type: 'http_request',
+        data: { url: `http://127.0.0.1:${port}/slow/${i}` }
+      })),
+      concurrency: 1,
+      detach: true
+    });
+    const job = JSON.parse(started.content[0].text);
+    console.log('Started:', job);
+
+    await setTimeout(450);
+    const status = await client.callTool('batch_job_status', { job_id: job.job_id });
+    console.log('Status (1 succeeded, 1 running expected):', JSON.parse(status.content[0].text));
+
+    const firstPage = JSON.parse((await client.callTool('batch_job_results', { job_id: job.job_id })).content[0].text);
+    console.log('Results so far:', firstPage);
+
+    console.log('\n2. Cancelling the job...');
+    const cancelled = await client.callTool('batch_job_cancel', { job_id: job.job_id });
+    console.log('Cancel:', JSON.parse(cancelled.content[0].text));
+
+    await setTimeout(50);
+    const rest = await client.callTool('batch_job_results', { job_id: job.job_id, offset: firstPage.next_offset });
+    console.log('Remaining results (in-flight op cancelled, next_offset null):', JSON.parse(rest.content[0].text));
+
+    const final = await client.callTool('batch_job_status', { job_id: job.job_id });
+    console.log('Final status (4 cancelled expected):', JSON.parse(final.content[0].text));
+
+    console.log('\n3. Unknown job id...');
+    try {
+      await client.callTool('batch_job_status', { job_id: 'no-such-job' });
+      console.log('Unexpectedly found');
+    } catch (error) {
+      console.log('Rejected:', (error as Error).message);
+    }
+  } finally {
+    httpServer.close();
+  }
+}
+
+async function testBatchPolicies(client: MCPTestClient) {
+  console.log('\n=== Testing Batch Retry and Rate Limit Policies ===');
+
+  // Each path fails with 503 twice before succeeding
+  const hits = new Map<string, number>();
+  const httpServer = createServer((req, res) => {
+    const count = (hits.get(req.url!) ?? 0) + 1;
+    hits.set(req.url!, count);
+    if (count <= 2) {
+      res.writeHead(503, { 'retry-after-ms': '50' }).end('unavailable');
+    } else {
+      res.end(JSON.stringify({ path: req.url, attempts: count }));
+    }
+  });
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  try {
+    console.log('1. Batch retry policy with a per-operation override...');
+    const retried = await client.callTool('batch_operation', {
+      operations: [
+        { id: 'flaky', type: 'http_request', data: { url: `http://127.0.0.1:${port}/flaky` } },
+        { id: 'no-retries', type: 'http_request', data: { url: `http://127.0.0.1:${port}/once` }, retry: { max_retries: 1 } }
+      ],
+      retry: { max_retries: 3, initial_delay_ms: 100, strategy: 'fixed' }
+    });
+    const retriedParsed = JSON.parse(retried.content[0].text);
+    console.log('Results (flaky succeeds after 3 attempts, no-retries fails after 1):',
+      retriedParsed.results.map((r: any) => ({ id: r.id, success: r.success, attempts: r.attempts, error: r.error })));
+
+    console.log('\n2. Batch rate limit shared with rate_limit_check...');
+    const resource = 'batch-policy-' + Date.now();
+    const limited = await client.callTool('batch_operation', {
+      operations: Array.from({ length: 4 }, (_, i) => ({
+        id: `limited-${i}`,
+        type: 'json_transform',
+        data: { input: i, steps: [] }
+      })),
+      rate_limit: { resource, max_requests: 2, window_seconds: 1, algorithm: 'sliding_log', max_wait_ms: 3000 }
+    });
+    const limitedParsed = JSON.parse(limited.content[0].text);
+    console.log(`Completed in ${limitedParsed.duration_ms}ms (about 1s expected), waits:`,
+      limitedParsed.results.map((r: any) => r.rate_limit_wait_ms));
+
+    const check = await client.callTool('rate_limit_check', { resource, increment: false });
+    console.log('rate_limit_check sees the batch usage:', JSON.parse(check.content[0].text).current_count);
+
+    console.log('\n3. Detached batch waiting on a rate limit...');
+    const detachedResource = 'batch-policy-detached-' + Date.now();
+    const started = await client.callTool('batch_operation', {
+      operations: Array.from({ length: 30 }, (_, i) => ({
+        id: `detached-${i}`,
+        type: 'json_transform',
+        data: { input: i, steps: [] }
+      })),
+      concurrency: 20,
+      detach: true,
+      rate_limit: { resource: detachedResource, max_requests: 10, window_seconds: 0.2, algorithm: 'sliding_log' }
+    });
+    const jobId = JSON.parse(started.content[0].text).job_id;
+    let job;
+    do {
+      await setTimeout(100);
+      job = JSON.parse((await client.callTool('batch_job_status', { job_id: jobId })).content[0].text);
+    } while (job.status === 'running');
+    const leaks = client.stderr.filter(line => line.includes('MaxListenersExceededWarning'));
+    console.log(`Job ${job.status} with ${job.succeeded} succeeded; abort listener warnings: ${leaks.length} (0 expected)`);
+
+    console.log('\n4. Invalid policy (should be rejected)...');
+    try {
+      await client.callTool('batch_operation', {
+        operations: [{ id: 'op1', type: 'json_transform', data: { input: 1, steps: [] }, retry: { strategy: 'sometimes' } }]
+      });
+      console.log('Unexpectedly accepted');
+    } catch (error) {
+      console.log('Rejected:', (error as Error).message);
+    }
+  } finally {
+    httpServer.close();
+  }
+}
+
+async function testBatchDependencies(client: MCPTestClient) {
+  console.log('\n=== Testing Batch Dependencies ===');
+
+  // /users/<n> returns a user; /teams/<name> returns the request path
+  const httpServer = createServer((req, res) => {
+    const [, kind, id] = req.url!.split('/');
+    res.writeHead(kind === 'missing' ? 404 : 200, { 'content-type': 'application/json' })
+      .end(JSON.stringify(kind === 'users' ? { id: Number(id), team: `team-${id}` } : { path: req.url }));
+  });
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  try {
+    console.log('1. Fetch two users, then combine them...');
+    const dag = await client.callTool('batch_operation', {
+      operations: [
+        {
+          id: 'combined',
+          type: 'json_transform',
+          depends_on: ['alice', 'bob'],
+          data: { input: ['{{alice.body}}', '{{bob.body}}'], steps: [{ op: 'map', path: 'team' }] }
+        },
+        { id: 'alice', type: 'http_request', data: { url: `${baseUrl}/users/1` } },
+        { id: 'bob', type: 'http_request', data: { url: `${baseUrl}/users/2` } },
+        {
+          id: 'team',
+          type: 'http_request',
+          depends_on: ['alice'],
+          data: { url: `${baseUrl}/teams/{{alice.body.team}}` }
+        },
+        { id: 'missing', type: 'http_request', data: { url: `${baseUrl}/missing/1` } },
+        { id: 'downstream', type: 'json_transform', depends_on: ['missing'], data: { input: '{{missing.body}}', steps: [] } },
+        { id: 'transitive', type: 'json_transform', depends_on: ['downstream'], data: { input: 1, steps: [] } }
+      ],
+      concurrency: 2
+    });
+    const dagParsed = JSON.parse(dag.content[0].text);
+    console.log(`Counts: ${dagParsed.successful} successful, ${dagParsed.failed} failed, ${dagParsed.skipped} skipped`);
+    for (const result of dagParsed.results) {
+      console.log(` ${result.id}:`, result.success ? JSON.stringify(result.result.body ?? result.result) : result.error);
+    }
+
+    console.log('\n2. Invalid graphs (should be rejected)...');
+    const invalid = {
+      cycle: [
+        { id: 'a', type: 'json_transform', depends_on: ['b'], data: { input: 1, steps: [] } },
+        { id: 'b', type: 'json_transform', depends_on: ['a'], data: { input: 1, steps: [] } }
+      ],
+      unknown: [{ id: 'a', type: 'json_transform', depends_on: ['nope'], data: { input: 1, steps: [] } }],
+      undeclared: [
+        { id: 'a', type: 'json_transform', data: { input: 1, steps: [] } },
+        { id: 'b', type: 'json_transform', depends_on: ['a'], data: { input: '{{c.value}}', steps: [] } },
+        { id: 'c', type: 'json_transform', data: { input: 1, steps: [] } }
+      ]
+    };
+    for (const [name, operations] of Object.entries(invalid)) {
+      try {
+        await client.callTool('batch_operation', { operations });
+        console.log(`${name}: unexpectedly accepted`);
+      } catch (error) {
+        console.log(`${name}: rejected -`, (error as Error).message);
+      }
+    }
+  } finally {
+    httpServer.close();
+  }
+}
+
+async function testBatchDeduplication(client: MCPTestClient) {
+  console.log('\n=== Testing Batch Deduplication ===');
+
+  // Slow endpoint that counts how often each path is actually fetched
+  const hits = new Map<string, number>();
+  const httpServer = createServer((req, res) => {
+    hits.set(req.url!, (hits.get(req.url!) ?? 0) + 1);
+    globalThis.setTimeout(() => {
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ path: req.url }));
+    }, 200);
   });
-  const cachedParsed = JSON.parse(cachedBatch.content[0].text);
-  console.log('Cached result:', cachedParsed.results[0]);
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}/shared-${Date.now()}`;
+
+  try {
+    console.log('1. Identical operations with different key order, in one batch and a concurrent one...');
+    const batch = (ids: string[]) => client.callTool('batch_operation', {
+      operations: ids.map((id, i) => ({
+        id,
+        type: 'http_request',
+        data: i % 2 === 0 ? { url, method: 'GET' } : { method: 'GET', url }
+      })),
+      use_cache: true
+    });
+    const [first, second] = await Promise.all([batch(['a', 'b']), batch(['c'])]);
+    const results = [...JSON.parse(first.content[0].text).results, ...JSON.parse(second.content[0].text).results];
+    console.log('Results:', results.map((r: any) => ({ id: r.id, success: r.success, deduplicated: r.deduplicated })));
+    console.log(`Upstream requests (1 expected): ${hits.get(new URL(url).pathname)}`);
+
+    console.log('\n2. A later batch is served from the cache...');
+    const later = await batch(['d']);
+    console.log('Cached:', JSON.parse(later.content[0].text).results[0].cached,
+      `upstream requests still ${hits.get(new URL(url).pathname)}`);
+  } finally {
+    httpServer.close();
+  }
+}
+
+async function testBatchSummaryOverflow(serverPath: string) {
+  console.log('\n=== Testing Batch Summary Larger Than the Cache ===');
+
+  const client = new MCPTestClient(serverPath, {
+    MCP_UTILITY_CACHE_MAX_BYTES: '5000'
+  });
+  await client.start();
+
+  try {
+    // Two ~3 KB results cannot be stored together under a 5 KB cache limit
+    const result = await client.callTool('batch_operation', {
+      operations: ['a', 'b'].map(id => ({
+        id,
+        type: 'json_transform',
+        data: { input: id.repeat(3000), steps: [] }
+      })),
+      result_mode: 'summary'
+    });
+    const parsed = JSON.parse(result.content[0].text);
+    console.log('Summary (batch_id null, results returned inline):', {
+      batch_id: parsed.batch_id,
+      results_not_stored: parsed.results_not_stored,
+      results: parsed.results?.length
+    });
+
+    // A result too large for the cache is returned without being cached
+    const uncached = await client.callTool('batch_operation', {
+      operations: [{ id: 'big', type: 'json_transform', data: { input: 'x'.repeat(6000), steps: [] } }],
+      use_cache: true
+    });
+    const uncachedResult = JSON.parse(uncached.content[0].text).results[0];
+    console.log('Oversized cached op (success expected):', { success: uncachedResult.success, error: uncachedResult.error });
+  } finally {
+    await client.stop();
+  }
 }
 
 async function testRateLimiting(client: MCPTestClient) {
@@ -249,9 +1182,135 @@ async function testRateLimiting(client: MCPTestClient) {
   console.log(`Blocked request: allowed=${blockedParsed.allowed}, reset_in=${blockedParsed.reset_in_seconds}s`);
 }
 
+async function testRateLimitAlgorithms(client: MCPTestClient) {
+  console.log('\n=== Testing Rate Limit Algorithms ===');
+
+  const algorithms = ['fixed_window', 'sliding_log', 'sliding_window', 'token_bucket', 'gcra'];
+  for (const algorithm of algorithms) {
+    const resource = `algo-${algorithm}-${Date.now()}`;
+    await client.callTool('rate_limit_configure', {
+      resource,
+      algorithm,
+      max_requests: 3,
+      window_seconds: 1
+    });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      // The registered limit wins over per-call max_requests
+      const result = await client.callTool('rate_limit_check', { resource, max_requests: 100 });
+      const parsed = JSON.parse(result.content[0].text);
+      results.push(`${parsed.allowed ? 'allowed' : 'denied'} (remaining=${parsed.remaining}, retry_after_ms=${parsed.retry_after_ms})`);
+    }
+    console.log(`${algorithm} (3/s, 4th should be denied):`, results.join(', '));
+  }
+}
+
+async function testRateLimitAcquire(client: MCPTestClient) {
+  console.log('\n=== Testing Rate Limit Acquire ===');
+
+  const resource = 'acquire-' + Date.now();
+  await client.callTool('rate_limit_configure', {
+    resource,
+    algorithm: 'gcra',
+    max_requests: 4,
+    window_seconds: 1,
+    burst: 1
+  });
+
+  console.log('1. Four concurrent acquires at 4/s (should be granted in order, ~250ms apart)...');
+  const acquires = await Promise.all([0, 1, 2, 3].map(() =>
+    client.callTool('rate_limit_acquire', { resource, max_wait_ms: 3000 })
+  ));
+  for (const [i, result] of acquires.entries()) {
+    const parsed = JSON.parse(result.content[0].text);
+    console.log(`Waiter ${i + 1}: acquired=${parsed.acquired}, waited_ms=${parsed.waited_ms}`);
+  }
+
+  console.log('\n2. Acquire with a short max wait (should time out)...');
+  await client.callTool('rate_limit_configure', { resource, max_requests: 1, window_seconds: 60 });
+  await client.callTool('rate_limit_acquire', { resource });
+  const timedOut = await client.callTool('rate_limit_acquire', { resource, max_wait_ms: 100 });
+  console.log('Timed out:', JSON.parse(timedOut.content[0].text));
+}
+
+async function testWeightedRateLimits(client: MCPTestClient) {
+  console.log('\n=== Testing Weighted and Stacked Rate Limits ===');
+
+  const resource = 'graphql-' + Date.now();
+  await client.callTool('rate_limit_configure', {
+    resource,
+    limits: [
+      { name: 'per_second', max_requests: 5, window_seconds: 1 },
+      { name: 'per_minute', algorithm: 'sliding_log', max_requests: 8, window_seconds: 60 }
+    ]
+  });
+
+  for (const cost of [3, 2, 4]) {
+    const result = await client.callTool('rate_limit_check', { resource, cost });
+    const parsed = JSON.parse(result.content[0].text);
+    console.log(`cost=${cost}: allowed=${parsed.allowed}, remaining=${parsed.remaining}, binding_limit=${parsed.binding_limit}`);
+  }
+
+  console.log('\nCost above a limit capacity (should be rejected):');
+  try {
+    await client.callTool('rate_limit_check', { resource, cost: 10 });
+    console.log('Unexpectedly accepted');
+  } catch (error) {
+    console.log('Rejected:', (error as Error).message);
+  }
+}
+
+async function testHierarchicalRateLimits(client: MCPTestClient) {
+  console.log('\n=== Testing Hierarchical Rate Limits ===');
+
+  const host = `host-${Date.now()}.example`;
+  await client.callTool('rate_limit_configure', { resource: host, max_requests: 3, window_seconds: 60 });
+  await client.callTool('rate_limit_configure', { resource: `${host}/repos`, max_requests: 10, window_seconds: 60 });
+
+  console.log('1. Requests to different endpoints share the host limit (4th should be denied by the host)...');
+  const endpoints = [`${host}/repos/a`, `${host}/repos/b`, `${host}/users/c`, `${host}/repos/a`];
+  for (const resource of endpoints) {
+    const result = await client.callTool('rate_limit_check', { resource, max_requests: 100 });
+    const parsed = JSON.parse(result.content[0].text);
+    console.log(`${resource}: allowed=${parsed.allowed}, binding_resource=${parsed.binding_resource}`);
+  }
+
+  const usage = await client.callTool('rate_limit_usage', { resource: host });
+  console.log('\n2. Subtree usage:', JSON.parse(usage.content[0].text));
+}
+
+async function testRateLimitAdministration(client: MCPTestClient) {
+  console.log('\n=== Testing Rate Limit Administration ===');
+
+  const root = `admin-${Date.now()}`;
+  for (const resource of [root, `${root}/a`, `${root}/b`]) {
+    await client.callTool('rate_limit_configure', { resource, max_requests: 10, window_seconds: 60 });
+  }
+  await client.callTool('rate_limit_check', { resource: `${root}/a` });
+
+  const list = await client.callTool('rate_limit_list', { prefix: root });
+  const listed = JSON.parse(list.content[0].text);
+  console.log('1. Listed resources:', listed.resources.map((r: any) => `${r.resource} (${r.current_count}/${r.max_requests})`));
+
+  const seeded = await client.callTool('rate_limit_reset', { resource: root, used: 9 });
+  const seededParsed = JSON.parse(seeded.content[0].text);
+  console.log('\n2. Pre-seeded root (should have 1 remaining):', seededParsed.resources[0].remaining);
+
+  const exhausted = await client.callTool('rate_limit_check', { resource: `${root}/b`, cost: 2 });
+  console.log('3. Cost 2 below the seeded root (should be denied):', JSON.parse(exhausted.content[0].text).allowed);
+
+  const deleted = await client.callTool('rate_limit_reset', { resource: root, subtree: true, delete: true });
+  console.log('\n4. Deleted subtree:', JSON.parse(deleted.content[0].text));
+
+  const empty = await client.callTool('rate_limit_list', { prefix: root });
+  console.log('5. Remaining resources (should be 0):', JSON.parse(empty.content[0].text).total);
+}
+
 // Main test runner
 async function runTests() {
-  const client = new MCPTestClient('./build/index-v2.js');
+  const serverPath = './build/index-v2.js';
+  const client = new MCPTestClient(serverPath);
   
   try {
     await client.start();
@@ -266,9 +1325,32 @@ async function runTests() {
 
     // Run all tests
     await testCacheOperations(client);
+    await testBulkCacheOperations(client);
+    await testAtomicCacheOperations(client);
+    await testCacheInvalidation(client);
+    await testCacheExpiryModes(client);
+    await testCachePersistence(serverPath);
+    await testCacheEviction(serverPath);
     await testRetryOperations(client);
+    await testRetryOutcomes(client);
+    await testRetryStateTools(client);
+    await testCircuitBreaker(client);
+    await testRetryBudget(client);
+    await testServerSideRetries(client);
+    await testRetryAfterHeaders(client);
     await testBatchOperations(client);
+    await testBatchProgressAndPaging(client);
+    await testBatchSummaryOverflow(serverPath);
+    await testDetachedBatchJobs(client);
+    await testBatchPolicies(client);
+    await testBatchDependencies(client);
+    await testBatchDeduplication(client);
     await testRateLimiting(client);
+    await testRateLimitAlgorithms(client);
+    await testRateLimitAcquire(client);
+    await testWeightedRateLimits(client);
+    await testHierarchicalRateLimits(client);
+    await testRateLimitAdministration(client);
     
     console.log('\n=== All tests completed successfully! ===');
   } catch (error) {